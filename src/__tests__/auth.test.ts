@@ -0,0 +1,126 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { generateKeyPairSync, createVerify } from 'node:crypto'
+import { createAppJwt, getInstallationToken } from '../auth.js'
+import { run } from '../index.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockCore = core as vi.Mocked<typeof core>
+const mockGithub = github as vi.Mocked<typeof github>
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+})
+
+/**
+ * Decodes a base64url encoded JWT part.
+ */
+function decode(part: string) {
+  return JSON.parse(Buffer.from(part, 'base64url').toString())
+}
+
+describe('GitHub Action - App authentication', () => {
+  let mockAppOctokit: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    Object.defineProperty(mockGithub.context, 'repo', {
+      value: {
+        owner: 'test-owner',
+        repo: 'test-repo',
+      },
+      writable: true,
+    })
+
+    mockAppOctokit = {
+      rest: {
+        apps: {
+          getRepoInstallation: vi.fn().mockResolvedValue({ data: { id: 42 } }),
+          createInstallationAccessToken: vi.fn().mockResolvedValue({
+            data: {
+              token: 'ghs_installation',
+              expires_at: '2024-07-01T01:00:00Z',
+            },
+          }),
+        },
+      },
+    }
+    mockGithub.getOctokit.mockReturnValue(mockAppOctokit)
+  })
+
+  it('should create a signed JWT for the app', () => {
+    const now = Date.parse('2024-07-01T00:00:00Z')
+    const jwt = createAppJwt('123', privateKey, now)
+    const [header, payload, signature] = jwt.split('.')
+
+    expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT' })
+    expect(decode(payload)).toEqual({
+      iat: now / 1000 - 60,
+      exp: now / 1000 - 60 + 9 * 60,
+      iss: '123',
+    })
+    const valid = createVerify('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .verify(publicKey, Buffer.from(signature, 'base64url'))
+    expect(valid).toBe(true)
+  })
+
+  it('should accept a private key with escaped newlines', () => {
+    const escaped = privateKey.replace(/\n/g, '\\n')
+    expect(createAppJwt('123', escaped, 0)).toEqual(
+      createAppJwt('123', privateKey, 0),
+    )
+  })
+
+  it('should mint a token for the installation on the repository', async () => {
+    const token = await getInstallationToken('123', privateKey, undefined, {
+      baseUrl: 'https://github.example.com/api/v3',
+    })
+
+    expect(token).toEqual({
+      token: 'ghs_installation',
+      expiresAt: '2024-07-01T01:00:00Z',
+    })
+    expect(mockGithub.getOctokit).toHaveBeenCalledWith(
+      expect.stringMatching(/^[\w-]+\.[\w-]+\.[\w-]+$/),
+      { baseUrl: 'https://github.example.com/api/v3' },
+    )
+    expect(mockAppOctokit.rest.apps.getRepoInstallation).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+    })
+    expect(
+      mockAppOctokit.rest.apps.createInstallationAccessToken,
+    ).toHaveBeenCalledWith({ installation_id: 42 })
+    expect(core.setSecret).toHaveBeenCalledWith('ghs_installation')
+  })
+
+  it('should use the given installation ID', async () => {
+    await getInstallationToken('123', privateKey, 7)
+
+    expect(mockAppOctokit.rest.apps.getRepoInstallation).not.toHaveBeenCalled()
+    expect(
+      mockAppOctokit.rest.apps.createInstallationAccessToken,
+    ).toHaveBeenCalledWith({ installation_id: 7 })
+  })
+
+  it('should fail when the app private key is missing', async () => {
+    mockCore.getInput.mockImplementation((name) => {
+      if (name === 'app-id') return '123'
+      return ''
+    })
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Action failed with error: app-private-key is required when app-id is set.',
+    )
+    expect(mockGithub.getOctokit).not.toHaveBeenCalled()
+  })
+})
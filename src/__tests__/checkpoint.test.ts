@@ -0,0 +1,227 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fetchThreads } from '../index.js'
+import { loadCheckpoints, saveCheckpoints } from '../checkpoint.js'
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
+import { createConfig } from './helpers.js'
+import { RepositoryCheckpoint } from '../interfaces.js'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = github as vi.Mocked<typeof github>
+const mockGraphql = vi.fn()
+
+/**
+ * Creates a search response with a single page of issues.
+ */
+function searchPage(
+  issueCount: number,
+  numbers: number[],
+  options: { endCursor?: string; remaining?: number; updatedAt?: string } = {},
+) {
+  return {
+    rateLimit: {
+      remaining: options.remaining ?? 5000,
+      resetAt: '2024-07-01T00:30:00Z',
+      cost: 1,
+    },
+    search: {
+      issueCount,
+      nodes: numbers.map((number) => ({
+        __typename: 'Issue',
+        number,
+        title: `Issue ${number}`,
+        updatedAt: options.updatedAt ?? '2016-01-01T00:00:00Z',
+        closedAt: '2016-01-01T00:00:00Z',
+        locked: false,
+      })),
+      pageInfo: {
+        hasNextPage: Boolean(options.endCursor),
+        endCursor: options.endCursor ?? null,
+      },
+    },
+  }
+}
+
+describe('GitHub Action - Checkpoints', () => {
+  let mockOctokit: any
+  let directory: string
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+    directory = mkdtempSync(join(tmpdir(), 'inactivity-lock-'))
+
+    mockOctokit = {
+      graphql: mockGraphql,
+      rest: { rateLimit: { get: vi.fn() } },
+    }
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should save and load checkpoints, leaving out finished repositories', () => {
+    const path = join(directory, 'state', 'checkpoint.json')
+
+    saveCheckpoints(path, {
+      'owner/pending': {
+        Issue: { closedAfter: '2016-04-01T00:00:00.000Z' },
+        PullRequest: { updatedAfter: '2023-02-01T00:00:00.000Z' },
+      },
+      'owner/finished': {},
+    })
+
+    expect(loadCheckpoints(path)).toEqual({
+      'owner/pending': {
+        Issue: { closedAfter: '2016-04-01T00:00:00.000Z' },
+        PullRequest: { updatedAfter: '2023-02-01T00:00:00.000Z' },
+      },
+    })
+  })
+
+  it('should start over when the checkpoint file is missing or invalid', () => {
+    const path = join(directory, 'checkpoint.json')
+    expect(loadCheckpoints(path)).toEqual({})
+
+    writeFileSync(path, 'not json')
+    expect(loadCheckpoints(path)).toEqual({})
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining(`Ignoring invalid checkpoint file ${path}`),
+    )
+  })
+
+  it('should start a search over when its checkpoint has an invalid date', () => {
+    const path = join(directory, 'checkpoint.json')
+    writeFileSync(
+      path,
+      JSON.stringify({
+        'owner/repo': {
+          Issue: { updatedAfter: 'yesterday' },
+          PullRequest: { closedAfter: '2016-04-01T00:00:00.000Z' },
+        },
+      }),
+    )
+
+    expect(loadCheckpoints(path)).toEqual({
+      'owner/repo': {
+        PullRequest: { closedAfter: '2016-04-01T00:00:00.000Z' },
+      },
+    })
+    expect(core.warning).toHaveBeenCalledWith(
+      'Ignoring invalid Issue checkpoint for owner/repo: {"updatedAfter":"yesterday"}',
+    )
+  })
+
+  it('should checkpoint the window a search stopped in and resume from it', async () => {
+    const checkpoint: RepositoryCheckpoint = {}
+    mockGraphql
+      .mockResolvedValueOnce(searchPage(1500, [1]))
+      .mockResolvedValueOnce(searchPage(600, [1, 2]))
+      .mockResolvedValueOnce(
+        searchPage(900, [3], { endCursor: 'cursor-1', remaining: 10 }),
+      )
+
+    await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      { type: 'Issue' },
+      {},
+      checkpoint,
+    )
+
+    expect(checkpoint).toEqual({
+      Issue: { closedAfter: '2016-04-01T00:00:00.000Z' },
+    })
+
+    // The next run skips the windows that were already completed
+    mockGraphql.mockResolvedValueOnce(searchPage(900, [3, 4]))
+    const result = await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      { type: 'Issue' },
+      {},
+      checkpoint,
+    )
+
+    expect(mockGraphql).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked is:issue sort:updated-asc closed:2016-04-01T00:00:00+00:00..2024-07-01T00:00:00+00:00',
+      }),
+    )
+    expect(result.map((item) => item.number)).toEqual([3, 4])
+    // A completed search resets the checkpoint
+    expect(checkpoint).toEqual({})
+  })
+
+  it('should checkpoint the last update of a search that was not split', async () => {
+    const checkpoint: RepositoryCheckpoint = {}
+    mockGraphql
+      .mockResolvedValueOnce(
+        searchPage(300, [1, 2], {
+          endCursor: 'cursor-1',
+          updatedAt: '2023-01-01T00:00:00Z',
+        }),
+      )
+      .mockResolvedValueOnce(
+        searchPage(300, [3, 4], {
+          endCursor: 'cursor-2',
+          remaining: 10,
+          updatedAt: '2023-02-01T00:00:00Z',
+        }),
+      )
+    const filter = { type: 'Issue' as const, updatedBefore: currentDate }
+
+    await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      filter,
+      {},
+      checkpoint,
+    )
+
+    expect(checkpoint).toEqual({
+      Issue: { updatedAfter: '2023-02-01T00:00:00.000Z' },
+    })
+
+    // The next run starts at the page the search stopped in
+    mockGraphql.mockResolvedValueOnce(
+      searchPage(100, [4, 5], { updatedAt: '2023-02-01T00:00:00Z' }),
+    )
+    const result = await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      filter,
+      {},
+      checkpoint,
+    )
+
+    expect(mockGraphql).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked is:issue updated:2023-02-01T00:00:00+00:00..2024-07-01T00:00:00+00:00 sort:updated-asc',
+        cursor: undefined,
+      }),
+    )
+    expect(result.map((item) => item.number)).toEqual([4, 5])
+    expect(checkpoint).toEqual({})
+  })
+})
@@ -0,0 +1,128 @@
+import * as core from '@actions/core'
+import { getConfig } from '../config.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+
+vi.mock('@actions/core')
+
+const mockCore = core as vi.Mocked<typeof core>
+
+/**
+ * Mocks the inputs of the action, leaving the others empty.
+ */
+function mockInputs(inputs: Record<string, string>) {
+  mockCore.getInput.mockImplementation((name) => inputs[name] ?? '')
+}
+
+describe('GitHub Action - Config', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockCore.getBooleanInput.mockReturnValue(false)
+  })
+
+  it('should parse the inputs into a typed configuration', () => {
+    mockInputs({
+      'repo-token': 'fake-token',
+      'days-inactive-issues': '30',
+      'lock-reason-issues': 'too heated',
+      'lock-reason-prs': 'none',
+      'exclude-pr-labels': 'security, pinned',
+      'max-locks-prs': '5',
+      'inactivity-basis': 'closed',
+    })
+
+    const config = getConfig()
+
+    expect(config.repoToken).toBe('fake-token')
+    expect(config.inactivityBasis).toBe('closed')
+    expect(config.rateLimitBuffer).toBe(100)
+    expect(config.maxRetries).toBe(3)
+    expect(config.issues).toEqual(
+      expect.objectContaining({ daysInactive: 30, lockReason: 'too heated' }),
+    )
+    expect(config.pullRequests).toEqual(
+      expect.objectContaining({
+        daysInactive: 90,
+        lockReason: undefined,
+        excludeLabels: ['security', 'pinned'],
+        maxLocks: 5,
+      }),
+    )
+  })
+
+  it('should reject numbers that are not whole or out of range', () => {
+    mockInputs({ 'days-inactive-issues': 'abc' })
+    expect(() => getConfig()).toThrow(
+      "Invalid days-inactive-issues 'abc', expected a whole number of at least 0.",
+    )
+
+    mockInputs({ 'rate-limit-buffer': '-1' })
+    expect(() => getConfig()).toThrow(
+      "Invalid rate-limit-buffer '-1', expected a whole number of at least 0.",
+    )
+
+    mockInputs({ 'lock-batch-size': '500' })
+    expect(() => getConfig()).toThrow(
+      "Invalid lock-batch-size '500', expected a whole number from 0 to 100.",
+    )
+  })
+
+  it('should reject an unknown lock reason', () => {
+    mockInputs({ 'lock-reason-prs': 'resolvd' })
+    expect(() => getConfig()).toThrow(
+      "Invalid lock-reason-prs 'resolvd', expected one of: off-topic, too heated, resolved, spam, none.",
+    )
+  })
+
+  it('should require the private key of a GitHub App', () => {
+    mockInputs({ 'app-id': '123' })
+    expect(() => getConfig()).toThrow(
+      'app-private-key is required when app-id is set.',
+    )
+  })
+
+  it('should parse the fail-on-error policy', () => {
+    mockInputs({})
+    expect(getConfig().failOnError).toBe(1)
+    mockInputs({ 'fail-on-error': 'never' })
+    expect(getConfig().failOnError).toBe(0)
+    mockInputs({ 'fail-on-error': '5' })
+    expect(getConfig().failOnError).toBe(5)
+    mockInputs({ 'fail-on-error': 'some' })
+    expect(() => getConfig()).toThrow(
+      "Invalid fail-on-error 'some', expected never, any or a whole number of at least 1.",
+    )
+  })
+
+  it('should parse the label thresholds in order', () => {
+    mockInputs({
+      'label-thresholds': [
+        'spam: { days-inactive: 0, lock-reason: spam }',
+        'question: 30',
+        'wontfix: { lock-reason: none }',
+      ].join('\n'),
+    })
+
+    expect(getConfig().labelThresholds).toEqual([
+      { label: 'spam', settings: { daysInactive: 0, lockReason: 'spam' } },
+      { label: 'question', settings: { daysInactive: 30 } },
+      { label: 'wontfix', settings: { lockReason: undefined } },
+    ])
+  })
+
+  it('should reject invalid label thresholds', () => {
+    mockInputs({ 'label-thresholds': '- question' })
+    expect(() => getConfig()).toThrow(
+      'Invalid label-thresholds: expected a mapping from labels to days or settings.',
+    )
+
+    mockInputs({ 'label-thresholds': 'question: soon' })
+    expect(() => getConfig()).toThrow(
+      "Invalid label-thresholds: question.days-inactive 'soon', expected a whole number of at least 0.",
+    )
+
+    mockInputs({ 'label-thresholds': 'spam: { reason: spam }' })
+    expect(() => getConfig()).toThrow(
+      'Invalid label-thresholds: spam.reason is not a known key, expected one of: days-inactive, lock-reason.',
+    )
+  })
+})
@@ -1,17 +1,29 @@
 import * as core from '@actions/core'
 import * as github from '@actions/github'
-import { graphql } from '@octokit/graphql'
-import { lockItem, fetchThreads, filterItems } from '../index.js'
+import {
+  lockItem,
+  lockItemsBatch,
+  commentItem,
+  labelItem,
+  fetchThreads,
+  fetchThreadPages,
+  filterItems,
+  getInactivityDate,
+  getLastHumanActivity,
+  getSearchFilter,
+  renderTemplate,
+} from '../index.js'
+import { parseListInput } from '../config.js'
 import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { createConfig } from './helpers.js'
 import { Thread } from '../interfaces.js'
 
 vi.mock('@actions/core')
 vi.mock('@actions/github')
-vi.mock('@octokit/graphql')
 
 const mockCore = core as vi.Mocked<typeof core>
 const mockGithub = github as vi.Mocked<typeof github>
-const mockGraphql = graphql as vi.MockedFunction<typeof graphql>
+const mockGraphql = vi.fn()
 
 describe('GitHub Action - Fetch & Lock', () => {
   let mockOctokit: any
@@ -32,9 +44,13 @@ describe('GitHub Action - Fetch & Lock', () => {
 
     // Mock Octokit instance with rate limit functionality
     mockOctokit = {
+      graphql: mockGraphql,
       rest: {
         issues: {
           lock: vi.fn(),
+          createComment: vi.fn(),
+          addLabels: vi.fn(),
+          removeLabel: vi.fn(),
         },
         rateLimit: {
           get: vi.fn().mockImplementation(() => {
@@ -95,13 +111,7 @@ describe('GitHub Action - Fetch & Lock', () => {
       },
     })
 
-    await fetchThreads(
-      mockOctokit,
-      'test-owner',
-      'test-repo',
-      'fake-token',
-      100,
-    )
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
 
     expect(mockGraphql).toHaveBeenCalledTimes(1)
 
@@ -110,20 +120,39 @@ describe('GitHub Action - Fetch & Lock', () => {
     )
   })
 
-  it('should fetch issues and PRs', async () => {
-    await fetchThreads(
-      mockOctokit,
-      'test-owner',
-      'test-repo',
-      'fake-token',
-      100,
+  it('should use the rate limit from the GraphQL response', async () => {
+    mockGraphql.mockResolvedValueOnce({
+      rateLimit: {
+        remaining: 50,
+        resetAt: '2024-07-01T00:30:00Z',
+        cost: 1,
+      },
+      search: {
+        issueCount: 1,
+        nodes: [],
+        pageInfo: {
+          hasNextPage: true,
+          endCursor: 'cursor-1',
+        },
+      },
+    })
+
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
+
+    // No extra REST round trip is needed to check the rate limit
+    expect(mockOctokit.rest.rateLimit.get).not.toHaveBeenCalled()
+    expect(mockGraphql).toHaveBeenCalledTimes(1)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Rate limit exceeded, stopping further fetching. Please wait until Mon, 01 Jul 2024 00:30:00 GMT.',
     )
+  })
+
+  it('should fetch issues and PRs', async () => {
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
     expect(mockGraphql).toHaveBeenCalledWith(expect.any(String), {
       cursor: undefined,
-      headers: {
-        authorization: 'token fake-token',
-      },
-      queryString: 'repo:test-owner/test-repo state:closed is:unlocked',
+      queryString:
+        'repo:test-owner/test-repo state:closed is:unlocked sort:updated-asc',
     })
   })
 
@@ -161,14 +190,224 @@ describe('GitHub Action - Fetch & Lock', () => {
       mockOctokit,
       'test-owner',
       'test-repo',
-      'fake-token',
-      100,
+      createConfig(),
     )
 
     expect(mockGraphql).toHaveBeenCalledTimes(2)
     expect(result.length).toBe(190)
   })
 
+  it('should only fetch the next page when it is requested', async () => {
+    mockGraphql
+      .mockResolvedValueOnce({
+        search: {
+          nodes: [{ number: 1 }, { number: 2 }],
+          pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+        },
+      })
+      .mockResolvedValueOnce({
+        search: {
+          nodes: [{ number: 2 }, { number: 3 }],
+          pageInfo: { hasNextPage: false, endCursor: null },
+        },
+      })
+
+    const pages = fetchThreadPages(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+    )
+
+    const first = await pages.next()
+    expect(first.value.map((item: Thread) => item.number)).toEqual([1, 2])
+    expect(mockGraphql).toHaveBeenCalledTimes(1)
+
+    // Threads already fetched are not yielded again
+    const second = await pages.next()
+    expect(second.value.map((item: Thread) => item.number)).toEqual([3])
+    expect(mockGraphql).toHaveBeenCalledTimes(2)
+    expect((await pages.next()).done).toBe(true)
+  })
+
+  it('should not skip threads when locked threads drop out of the search', async () => {
+    const threads = Array.from({ length: 6 }, (_, index) => ({
+      __typename: 'Issue',
+      number: index + 1,
+      title: `Issue ${index + 1}`,
+      updatedAt: `2024-01-0${index + 1}T00:00:00Z`,
+      closedAt: `2024-01-0${index + 1}T00:00:00Z`,
+      locked: false,
+    }))
+    // Mimics the search, with offset cursors over the unlocked threads
+    mockGraphql.mockImplementation(
+      async (
+        _query: string,
+        { queryString, cursor }: { queryString: string; cursor?: string },
+      ) => {
+        const updatedAfter = /updated:>=(\S+)/.exec(queryString)?.[1]
+        const matches = threads.filter(
+          (thread) =>
+            !thread.locked &&
+            (!updatedAfter ||
+              new Date(thread.updatedAt) >= new Date(updatedAfter)),
+        )
+        const offset = Number(cursor ?? 0)
+        return {
+          search: {
+            issueCount: matches.length,
+            nodes: matches.slice(offset, offset + 2),
+            pageInfo: {
+              hasNextPage: offset + 2 < matches.length,
+              endCursor: `${offset + 2}`,
+            },
+          },
+        }
+      },
+    )
+
+    const fetched: number[] = []
+    for await (const page of fetchThreadPages(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+    )) {
+      for (const thread of page) {
+        fetched.push(thread.number)
+        threads[thread.number - 1].locked = true
+      }
+    }
+
+    expect(fetched).toEqual([1, 2, 3, 4, 5, 6])
+    expect(mockGraphql).toHaveBeenNthCalledWith(
+      2,
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked updated:>=2024-01-02T00:00:00+00:00 sort:updated-asc',
+        cursor: undefined,
+      }),
+    )
+  })
+
+  it('should fetch only threads of one type past the cutoff', async () => {
+    await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      getSearchFilter('Issue', createConfig()),
+    )
+    await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      getSearchFilter(
+        'PullRequest',
+        createConfig({ inactivityBasis: 'closed' }, { daysInactive: 60 }),
+      ),
+    )
+
+    expect(mockGraphql).toHaveBeenNthCalledWith(
+      1,
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked is:issue updated:<2024-06-01T00:00:00+00:00 sort:updated-asc',
+      }),
+    )
+    expect(mockGraphql).toHaveBeenNthCalledWith(
+      2,
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked is:pr sort:updated-asc closed:<2024-05-02T00:00:00+00:00',
+      }),
+    )
+  })
+
+  it('should not apply a cutoff when bot activity is ignored', () => {
+    expect(
+      getSearchFilter('Issue', createConfig({ ignoreBotActivity: true })),
+    ).toEqual({
+      type: 'Issue',
+    })
+  })
+
+  it('should not apply a cutoff when the last comment precedes the close date', () => {
+    const config = createConfig({ inactivityBasis: 'last-comment' })
+    const thread: Thread = {
+      __typename: 'Issue',
+      number: 1,
+      title: 'Issue 1',
+      updatedAt: '2024-06-24T00:00:00Z',
+      closedAt: '2024-06-24T00:00:00Z',
+      locked: false,
+      comments: { nodes: [{ createdAt: '2023-12-14T00:00:00Z' }] },
+    }
+
+    // Closed last week, but inactive for 200 days since the last comment
+    expect(getInactivityDate(thread, config).toISOString()).toBe(
+      '2023-12-14T00:00:00.000Z',
+    )
+    expect(getSearchFilter('Issue', config)).toEqual({ type: 'Issue' })
+  })
+
+  it('should slice the search by close date above the result limit', async () => {
+    const thread = (number: number) => ({
+      __typename: 'Issue',
+      number,
+      title: `Issue ${number}`,
+      updatedAt: '2023-06-30T00:00:00Z',
+      closedAt: '2023-06-30T00:00:00Z',
+      locked: false,
+    })
+    const page = (issueCount: number, nodes: unknown[]) => ({
+      search: {
+        issueCount,
+        nodes,
+        pageInfo: {
+          hasNextPage: false,
+          endCursor: null,
+        },
+      },
+    })
+
+    mockGraphql
+      .mockResolvedValueOnce(page(1500, [thread(1)]))
+      .mockResolvedValueOnce(page(600, [thread(1), thread(2)]))
+      .mockResolvedValueOnce(page(900, [thread(2), thread(3)]))
+
+    const result = await fetchThreads(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+    )
+
+    expect(mockGraphql).toHaveBeenCalledTimes(3)
+    expect(mockGraphql).toHaveBeenNthCalledWith(
+      2,
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked sort:updated-asc closed:2008-01-01T00:00:00+00:00..2016-04-01T00:00:00+00:00',
+      }),
+    )
+    expect(mockGraphql).toHaveBeenNthCalledWith(
+      3,
+      expect.any(String),
+      expect.objectContaining({
+        queryString:
+          'repo:test-owner/test-repo state:closed is:unlocked sort:updated-asc closed:2016-04-01T00:00:00+00:00..2024-07-01T00:00:00+00:00',
+      }),
+    )
+    // Threads on the shared window boundary are de-duplicated
+    expect(result.map((item) => item.number)).toEqual([1, 2, 3])
+  })
+
   it('should handle errors during fetching issues and PRs', async () => {
     mockGraphql.mockRejectedValueOnce(new Error('API error'))
 
@@ -176,13 +415,13 @@ describe('GitHub Action - Fetch & Lock', () => {
       mockOctokit,
       'test-owner',
       'test-repo',
-      'fake-token',
-      100,
+      createConfig(),
     )
 
-    expect(core.setFailed).toHaveBeenCalledWith(
+    expect(core.warning).toHaveBeenCalledWith(
       'Failed to fetch issues and PRs using GraphQL: API error',
     )
+    expect(core.setFailed).not.toHaveBeenCalled()
     expect(result).toEqual([])
   })
 
@@ -218,18 +457,16 @@ describe('GitHub Action - Fetch & Lock', () => {
 
     mockOctokit.rest.issues.lock.mockRejectedValueOnce(new Error('API error'))
 
-    await fetchThreads(
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
+    const result = await lockItem(
       mockOctokit,
       'test-owner',
       'test-repo',
-      'fake-token',
-      100,
+      1,
+      'off-topic',
     )
-    await lockItem(mockOctokit, 'test-owner', 'test-repo', 1, 'off-topic')
 
-    expect(core.setFailed).toHaveBeenCalledWith(
-      'Failed to lock issue/PR #1: API error',
-    )
+    expect(result).toEqual({ status: 'failed', reason: 'API error' })
   })
 
   it('should correctly filter issues and pull requests', () => {
@@ -275,4 +512,212 @@ describe('GitHub Action - Fetch & Lock', () => {
     expect(issuesList.length).toBe(2)
     expect(pullRequestsList.length).toBe(2)
   })
+
+  it('should parse comma and newline separated list inputs', () => {
+    expect(parseListInput('security, keep-open-discussion\nbug,')).toEqual([
+      'security',
+      'keep-open-discussion',
+      'bug',
+    ])
+    expect(parseListInput('')).toEqual([])
+  })
+
+  it('should handle errors during commenting on issues and PRs', async () => {
+    mockOctokit.rest.issues.createComment.mockRejectedValueOnce(
+      new Error('API error'),
+    )
+
+    await expect(
+      commentItem(mockOctokit, 'test-owner', 'test-repo', 1, 'Locked'),
+    ).rejects.toThrow('Failed to comment on issue/PR #1: API error')
+  })
+
+  it('should render comment templates', () => {
+    expect(
+      renderTemplate('Locked #{number} after {days} days {unknown}', {
+        number: 1,
+        days: 30,
+      }),
+    ).toBe('Locked #1 after 30 days {unknown}')
+  })
+
+  it('should handle errors during labeling issues and PRs', async () => {
+    mockOctokit.rest.issues.addLabels.mockRejectedValueOnce(
+      new Error('API error'),
+    )
+
+    await expect(
+      labelItem(mockOctokit, 'test-owner', 'test-repo', 1, ['locked'], []),
+    ).rejects.toThrow('Failed to update labels on issue/PR #1: API error')
+  })
+
+  it('should determine the inactivity date for each basis', () => {
+    const thread: Thread = {
+      __typename: 'Issue',
+      number: 1,
+      title: 'Issue 1',
+      updatedAt: '2024-06-30T00:00:00Z',
+      closedAt: '2024-03-01T00:00:00Z',
+      locked: false,
+      comments: { nodes: [{ createdAt: '2024-04-01T00:00:00Z' }] },
+    }
+    const withoutComments: Thread = { ...thread, comments: { nodes: [] } }
+
+    expect(getInactivityDate(thread, createConfig()).toISOString()).toBe(
+      '2024-06-30T00:00:00.000Z',
+    )
+    expect(
+      getInactivityDate(thread, { inactivityBasis: 'closed' }).toISOString(),
+    ).toBe('2024-03-01T00:00:00.000Z')
+    expect(
+      getInactivityDate(thread, {
+        inactivityBasis: 'last-comment',
+      }).toISOString(),
+    ).toBe('2024-04-01T00:00:00.000Z')
+    expect(
+      getInactivityDate(withoutComments, {
+        inactivityBasis: 'last-comment',
+      }).toISOString(),
+    ).toBe('2024-03-01T00:00:00.000Z')
+    expect(
+      getInactivityDate(thread, { inactivityBasis: 'latest-of' }).toISOString(),
+    ).toBe('2024-04-01T00:00:00.000Z')
+  })
+
+  it('should determine the last human activity from the timeline', () => {
+    const thread: Thread = {
+      __typename: 'Issue',
+      number: 1,
+      title: 'Issue 1',
+      updatedAt: '2024-06-30T00:00:00Z',
+      closedAt: '2024-03-01T00:00:00Z',
+      locked: false,
+      timelineItems: {
+        nodes: [
+          {
+            createdAt: '2024-04-01T00:00:00Z',
+            author: { __typename: 'User', login: 'octocat' },
+          },
+          {
+            createdAt: '2024-05-01T00:00:00Z',
+            actor: { __typename: 'User', login: 'our-labeler' },
+          },
+          {
+            createdAt: '2024-06-30T00:00:00Z',
+            actor: { __typename: 'Bot', login: 'renovate' },
+          },
+        ],
+      },
+    }
+
+    expect(
+      getLastHumanActivity(thread, {
+        ignoreBotActivity: true,
+        ignoreActors: ['Our-Labeler'],
+      }).toISOString(),
+    ).toBe('2024-04-01T00:00:00.000Z')
+    expect(
+      getLastHumanActivity(thread, { ignoreBotActivity: true }).toISOString(),
+    ).toBe('2024-05-01T00:00:00.000Z')
+    expect(
+      getLastHumanActivity(
+        { ...thread, timelineItems: { nodes: [] } },
+        { ignoreBotActivity: true },
+      ).toISOString(),
+    ).toBe('2024-03-01T00:00:00.000Z')
+  })
+
+  it('should not look past the fetched timeline items for human activity', () => {
+    // A full window of bot events can hide older human comments
+    const nodes = Array.from({ length: 25 }, (_, index) => ({
+      createdAt: new Date(Date.UTC(2024, 4, 1 + index)).toISOString(),
+      actor: { __typename: 'Bot' as const, login: 'renovate' },
+    }))
+    const thread: Thread = {
+      __typename: 'Issue',
+      number: 1,
+      title: 'Issue 1',
+      updatedAt: '2024-05-25T00:00:00Z',
+      closedAt: '2024-03-01T00:00:00Z',
+      locked: false,
+      timelineItems: { nodes },
+    }
+
+    expect(
+      getLastHumanActivity(thread, { ignoreBotActivity: true }).toISOString(),
+    ).toBe('2024-05-01T00:00:00.000Z')
+  })
+
+  it('should lock a batch of issues and PRs with a single mutation', async () => {
+    const mockItems: Thread[] = [1, 2, 3].map((number) => ({
+      __typename: 'Issue',
+      id: `I_${number}`,
+      number,
+      title: `Issue ${number}`,
+      updatedAt: '2024-05-30T00:00:00Z',
+      closedAt: '2024-05-30T00:00:00Z',
+      locked: false,
+    }))
+
+    mockGraphql.mockRejectedValueOnce(
+      Object.assign(new Error('Request failed'), {
+        errors: [
+          { message: 'Could not resolve to a node', path: ['lock1'] },
+          { message: 'Issue is already locked', path: ['lock2'] },
+        ],
+        data: {
+          lock0: { lockedRecord: { locked: true } },
+          lock1: null,
+          lock2: null,
+        },
+      }),
+    )
+
+    const results = await lockItemsBatch(mockOctokit, mockItems, 'too heated')
+
+    expect(mockGraphql).toHaveBeenCalledTimes(1)
+    expect(mockGraphql).toHaveBeenCalledWith(
+      expect.stringContaining('lock2: lockLockable('),
+      {
+        lockReason: 'TOO_HEATED',
+        id0: 'I_1',
+        id1: 'I_2',
+        id2: 'I_3',
+      },
+    )
+    expect(results).toEqual(
+      new Map([
+        [1, { status: 'locked' }],
+        [2, { status: 'failed', reason: 'Could not resolve to a node' }],
+        [3, { status: 'skipped', reason: 'Already locked.' }],
+      ]),
+    )
+  })
+  it('should fail the whole batch on an error without an alias path', async () => {
+    const mockItems: Thread[] = [1, 2].map((number) => ({
+      __typename: 'Issue',
+      id: `I_${number}`,
+      number,
+      title: `Issue ${number}`,
+      updatedAt: '2024-05-30T00:00:00Z',
+      closedAt: '2024-05-30T00:00:00Z',
+      locked: false,
+    }))
+
+    mockGraphql.mockRejectedValueOnce(
+      Object.assign(new Error('Request failed'), {
+        errors: [{ type: 'RATE_LIMITED', message: 'API rate limit exceeded' }],
+        data: null,
+      }),
+    )
+
+    const results = await lockItemsBatch(mockOctokit, mockItems, undefined)
+
+    expect(results).toEqual(
+      new Map([
+        [1, { status: 'failed', reason: 'API rate limit exceeded' }],
+        [2, { status: 'failed', reason: 'API rate limit exceeded' }],
+      ]),
+    )
+  })
 })
@@ -0,0 +1,116 @@
+import * as core from '@actions/core'
+import { vi } from 'vitest'
+import { ActionConfig, Thread, ThreadConfig } from '../interfaces.js'
+
+/**
+ * Creates a configuration like the defaults of the action, locking after
+ * 30 days of inactivity.
+ * @param overrides Values to override in the configuration.
+ * @param threadOverrides Values to override for both issues and PRs.
+ */
+export function createConfig(
+  overrides: Partial<ActionConfig> = {},
+  threadOverrides: Partial<ThreadConfig> = {},
+): ActionConfig {
+  const thread: ThreadConfig = {
+    daysInactive: 30,
+    lockReason: 'resolved',
+    excludeLabels: [],
+    includeLabels: [],
+    comment: '',
+    addLabels: [],
+    removeLabels: [],
+    maxLocks: 0,
+    ...threadOverrides,
+  }
+  return {
+    repoToken: 'fake-token',
+    appId: '',
+    appPrivateKey: '',
+    apiUrl: '',
+    rateLimitBuffer: 100,
+    repositories: [],
+    inactivityBasis: 'updated',
+    ignoreBotActivity: false,
+    ignoreActors: [],
+    maxLocksPerRun: 0,
+    maxRetries: 0,
+    lockBatchSize: 0,
+    lockConcurrency: 1,
+    waitForReset: false,
+    maxWaitMinutes: 60,
+    checkpointPath: '',
+    dryRun: false,
+    failOnError: 1,
+    reportPath: '',
+    configPath: '',
+    labelThresholds: [],
+    issues: thread,
+    pullRequests: { ...thread },
+    ...overrides,
+  }
+}
+
+/**
+ * Returns the numbers and titles in the last value of a list output, leaving
+ * out the other details of the items.
+ * @param name Name of the output.
+ */
+export function getOutputSummaries(name: string) {
+  const calls = vi
+    .mocked(core.setOutput)
+    .mock.calls.filter(([output]) => output === name)
+  return JSON.parse(calls[calls.length - 1][1]).map(
+    ({ number, title }: { number: number; title: string }) => ({
+      number,
+      title,
+    }),
+  )
+}
+
+/**
+ * Creates a closed thread that was last updated and closed on the given date.
+ * @param __typename Type of the thread.
+ * @param number Number of the thread.
+ * @param updatedAt Date of the last update and the close.
+ * @param labels Names of the labels of the thread.
+ */
+export function createThread(
+  __typename: Thread['__typename'],
+  number: number,
+  updatedAt = '2024-01-01T00:00:00Z',
+  labels: string[] = [],
+): Thread {
+  const path = __typename === 'Issue' ? 'issues' : 'pull'
+  return {
+    __typename,
+    number,
+    title: `${__typename} ${number}`,
+    url: `https://github.com/test-owner/test-repo/${path}/${number}`,
+    updatedAt,
+    closedAt: updatedAt,
+    locked: false,
+    labels: { nodes: labels.map((name) => ({ name })) },
+  }
+}
+
+/**
+ * Creates a mocked Octokit instance with the endpoints used to lock threads
+ * and to read the config file.
+ */
+export function createMockOctokit() {
+  return {
+    graphql: vi.fn(),
+    rest: {
+      repos: {
+        getContent: vi.fn(),
+      },
+      issues: {
+        lock: vi.fn(),
+        createComment: vi.fn(),
+        addLabels: vi.fn(),
+        removeLabel: vi.fn(),
+      },
+    },
+  }
+}
@@ -1,17 +1,16 @@
 import * as core from '@actions/core'
 import * as github from '@actions/github'
-import { graphql } from '@octokit/graphql'
 import { processIssues, fetchThreads } from '../index.js'
 import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { createConfig, getOutputSummaries } from './helpers.js'
 import { Thread } from '../interfaces.js'
 
 vi.mock('@actions/core')
 vi.mock('@actions/github')
-vi.mock('@octokit/graphql')
 
 const mockCore = core as vi.Mocked<typeof core>
 const mockGithub = github as vi.Mocked<typeof github>
-const mockGraphql = graphql as vi.MockedFunction<typeof graphql>
+const mockGraphql = vi.fn()
 
 describe('GitHub Action - Lock issues', () => {
   let mockOctokit: any
@@ -32,9 +31,13 @@ describe('GitHub Action - Lock issues', () => {
 
     // Mock Octokit instance with rate limit functionality
     mockOctokit = {
+      graphql: mockGraphql,
       rest: {
         issues: {
           lock: vi.fn(),
+          createComment: vi.fn(),
+          addLabels: vi.fn(),
+          removeLabel: vi.fn(),
         },
         rateLimit: {
           get: vi.fn().mockImplementation(() => {
@@ -106,20 +109,13 @@ describe('GitHub Action - Lock issues', () => {
     const mockInfo = vi.spyOn(core, 'info')
 
     // Run the action
-    await fetchThreads(
-      mockOctokit,
-      'test-owner',
-      'test-repo',
-      'fake-token',
-      100,
-    )
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
     await processIssues(
       mockOctokit,
       'test-owner',
       'test-repo',
       mockItems,
-      30,
-      'off-topic',
+      createConfig({}, { lockReason: 'off-topic' }),
     )
 
     // Assert locking function calls
@@ -137,10 +133,9 @@ describe('GitHub Action - Lock issues', () => {
     )
 
     // Assert setOutput called with locked issues
-    expect(mockSetOutput).toHaveBeenCalledWith(
-      'locked-issues',
-      JSON.stringify([{ number: 3, title: 'Issue 3' }]),
-    )
+    expect(getOutputSummaries('locked-issues')).toEqual([
+      { number: 3, title: 'Issue 3' },
+    ])
   })
 
   it('should not lock issues that are less than 30 days inactive', async () => {
@@ -183,20 +178,13 @@ describe('GitHub Action - Lock issues', () => {
     const mockSetOutput = vi.spyOn(core, 'setOutput')
 
     // Run the action
-    await fetchThreads(
-      mockOctokit,
-      'test-owner',
-      'test-repo',
-      'fake-token',
-      100,
-    )
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
     await processIssues(
       mockOctokit,
       'test-owner',
       'test-repo',
       mockItems,
-      30,
-      'resolved',
+      createConfig(),
     )
 
     // Assert debug messages
@@ -208,9 +196,435 @@ describe('GitHub Action - Lock issues', () => {
     expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
 
     // Assert setOutput not called for locked issues
+    expect(getOutputSummaries('locked-issues')).toEqual([])
+  })
+
+  it('should only report inactive issues in dry-run mode', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        number: 1,
+        title: 'Issue 1',
+        updatedAt: '2024-06-30T00:00:00Z',
+        closedAt: '2024-06-30T00:00:00Z',
+        locked: false,
+      },
+      {
+        __typename: 'Issue',
+        number: 2,
+        title: 'Issue 2',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+    const mockInfo = vi.spyOn(core, 'info')
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({ dryRun: true }),
+    )
+
+    // Assert no locking function call
+    expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
+
+    // Assert info message
+    expect(mockInfo).toHaveBeenCalledWith(
+      'Would lock issue #2 due to 30 days of inactivity.',
+    )
+
+    // Assert setOutput called with the issues that would be locked
+    expect(getOutputSummaries('locked-issues')).toEqual([
+      { number: 2, title: 'Issue 2' },
+    ])
+  })
+
+  it('should not lock issues with an excluded label', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        number: 1,
+        title: 'Issue 1',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+        labels: { nodes: [{ name: 'Security' }] },
+      },
+      {
+        __typename: 'Issue',
+        number: 2,
+        title: 'Issue 2',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+        labels: { nodes: [{ name: 'bug' }] },
+      },
+    ]
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({}, { excludeLabels: ['security', 'keep-open-discussion'] }),
+    )
+
+    // Assert only the issue without an excluded label is locked
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 2,
+      lock_reason: 'resolved',
+    })
+    expect(core.debug).toHaveBeenCalledWith(
+      'Issue #1 skipped due to label rules.',
+    )
+    expect(getOutputSummaries('locked-issues')).toEqual([
+      { number: 2, title: 'Issue 2' },
+    ])
+  })
+
+  it('should post a comment before locking an issue', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        number: 3,
+        title: 'Issue 3',
+        author: { login: 'octocat' },
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig(
+        {},
+        {
+          comment:
+            'Hi @{author}, #{number} is locked as {reason} after {days} days.',
+        },
+      ),
+    )
+
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 3,
+      body: 'Hi @octocat, #3 is locked as resolved after 30 days.',
+    })
+
+    // Assert the comment is posted before the issue is locked
+    expect(
+      mockOctokit.rest.issues.createComment.mock.invocationCallOrder[0],
+    ).toBeLessThan(mockOctokit.rest.issues.lock.mock.invocationCallOrder[0])
+  })
+
+  it('should add and remove labels when locking an issue', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        number: 3,
+        title: 'Issue 3',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+        labels: { nodes: [{ name: 'Needs-Triage' }] },
+      },
+    ]
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig(
+        {},
+        {
+          addLabels: ['locked-inactivity'],
+          removeLabels: ['needs-triage', 'stale'],
+        },
+      ),
+    )
+
+    expect(mockOctokit.rest.issues.addLabels).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 3,
+      labels: ['locked-inactivity'],
+    })
+    // Only labels present on the issue are removed
+    expect(mockOctokit.rest.issues.removeLabel).toHaveBeenCalledTimes(1)
+    expect(mockOctokit.rest.issues.removeLabel).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 3,
+      name: 'Needs-Triage',
+    })
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
     expect(mockSetOutput).toHaveBeenCalledWith(
-      'locked-issues',
-      JSON.stringify([]),
+      'labeled-issues',
+      JSON.stringify([{ number: 3, title: 'Issue 3' }]),
+    )
+  })
+
+  it('should measure inactivity from the close date', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        number: 3,
+        title: 'Issue 3',
+        updatedAt: '2024-06-30T00:00:00Z',
+        closedAt: '2024-01-01T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({ inactivityBasis: 'closed' }),
+    )
+
+    // Assert the recently updated issue is locked based on its close date
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should lock the oldest issues first up to the lock limit', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        number: 1,
+        title: 'Issue 1',
+        updatedAt: '2024-05-01T00:00:00Z',
+        closedAt: '2024-05-01T00:00:00Z',
+        locked: false,
+      },
+      {
+        __typename: 'Issue',
+        number: 2,
+        title: 'Issue 2',
+        updatedAt: '2024-01-01T00:00:00Z',
+        closedAt: '2024-01-01T00:00:00Z',
+        locked: false,
+      },
+      {
+        __typename: 'Issue',
+        number: 3,
+        title: 'Issue 3',
+        updatedAt: '2024-03-01T00:00:00Z',
+        closedAt: '2024-03-01T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({}, { maxLocks: 2 }),
+    )
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(2)
+    expect(getOutputSummaries('locked-issues')).toEqual([
+      { number: 2, title: 'Issue 2' },
+      { number: 3, title: 'Issue 3' },
+    ])
+    expect(mockSetOutput).toHaveBeenCalledWith(
+      'deferred-issues',
+      JSON.stringify([{ number: 1, title: 'Issue 1' }]),
+    )
+    expect(core.info).toHaveBeenCalledWith(
+      'Lock limit reached, 1 issues left for the next run.',
+    )
+  })
+
+  it('should only report issues locked in a batch as locked', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'Issue',
+        id: 'I_1',
+        number: 1,
+        title: 'Issue 1',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+      {
+        __typename: 'Issue',
+        number: 2,
+        title: 'Issue 2',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    mockGraphql.mockResolvedValueOnce({
+      lock0: { lockedRecord: { locked: true } },
+    })
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({ lockBatchSize: 50 }),
+    )
+
+    expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
+    expect(mockGraphql).toHaveBeenCalledTimes(1)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to lock issue #2: Missing node ID.',
+    )
+    expect(result.failed).toEqual([
+      { number: 2, title: 'Issue 2', reason: 'Missing node ID.' },
+    ])
+    expect(getOutputSummaries('locked-issues')).toEqual([
+      { number: 1, title: 'Issue 1' },
+    ])
+  })
+
+  it('should not report issues that failed to lock as locked', async () => {
+    const mockItems: Thread[] = [1, 2, 3].map((number) => ({
+      __typename: 'Issue',
+      number,
+      title: `Issue ${number}`,
+      url: `https://github.com/test-owner/test-repo/issues/${number}`,
+      updatedAt: '2024-05-30T00:00:00Z',
+      closedAt: '2024-05-30T00:00:00Z',
+      locked: false,
+    }))
+
+    mockOctokit.rest.issues.lock
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Not Found'))
+      .mockRejectedValueOnce(new Error('Issue is already locked'))
+    const state = { failures: [] }
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig(),
+      state,
     )
+
+    expect(result.locked).toEqual([
+      {
+        number: 1,
+        title: 'Issue 1',
+        html_url: 'https://github.com/test-owner/test-repo/issues/1',
+        type: 'Issue',
+        days_inactive: 32,
+        inactive_since: '2024-05-30T00:00:00.000Z',
+        lock_reason: 'resolved',
+      },
+    ])
+    expect(core.setOutput).toHaveBeenCalledWith('locked-issues-count', 1)
+    expect(result.failed).toEqual([
+      { number: 2, title: 'Issue 2', reason: 'Not Found' },
+    ])
+    expect(result.skipped).toEqual([
+      { number: 3, title: 'Issue 3', reason: 'Already locked.' },
+    ])
+    expect(state.failures).toEqual([
+      {
+        repository: 'test-owner/test-repo',
+        number: 2,
+        title: 'Issue 2',
+        reason: 'Not Found',
+      },
+    ])
+  })
+
+  it('should not lock issues whose comment failed to post', async () => {
+    mockOctokit.rest.issues.createComment.mockRejectedValueOnce(
+      new Error('API error'),
+    )
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        {
+          __typename: 'Issue',
+          number: 1,
+          title: 'Issue 1',
+          updatedAt: '2024-05-30T00:00:00Z',
+          closedAt: '2024-05-30T00:00:00Z',
+          locked: false,
+        },
+      ],
+      createConfig({}, { comment: 'Locked' }),
+    )
+
+    expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
+    expect(result.failed).toEqual([
+      {
+        number: 1,
+        title: 'Issue 1',
+        reason: 'Failed to comment on issue/PR #1: API error',
+      },
+    ])
+  })
+
+  it('should lock each page of issues before fetching the next one', async () => {
+    const pageIssue = (number: number): Thread => ({
+      __typename: 'Issue',
+      number,
+      title: `Issue ${number}`,
+      updatedAt: '2024-01-01T00:00:00Z',
+      closedAt: '2024-01-01T00:00:00Z',
+      locked: false,
+    })
+    const fetched: number[] = []
+    async function* pages() {
+      fetched.push(1)
+      yield [pageIssue(1), pageIssue(2)]
+      // The first page is locked before the second one is requested
+      expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(2)
+      fetched.push(2)
+      yield [pageIssue(3), pageIssue(4)]
+      fetched.push(3)
+      yield [pageIssue(5)]
+    }
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      pages(),
+      createConfig({}, { maxLocks: 3 }),
+    )
+
+    // Fetching stops once the lock limit is reached
+    expect(fetched).toEqual([1, 2])
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(3)
+    expect(result.locked.map((item) => item.number)).toEqual([1, 2, 3])
+    expect(result.deferred.map((item) => item.number)).toEqual([4])
+    expect(core.info).toHaveBeenCalledWith('Total fetched issues: 4')
   })
 })
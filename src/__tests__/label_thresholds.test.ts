@@ -0,0 +1,149 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {
+  findLabelThreshold,
+  getSearchFilter,
+  processIssues,
+  processPullRequests,
+} from '../index.js'
+import { parseLockRules } from '../rules.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { createConfig, createMockOctokit, createThread } from './helpers.js'
+import { LabelThreshold } from '../interfaces.js'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = github as vi.Mocked<typeof github>
+
+const LABEL_THRESHOLDS: LabelThreshold[] = [
+  { label: 'spam', settings: { daysInactive: 0, lockReason: 'spam' } },
+  { label: 'question', settings: { daysInactive: 30 } },
+  { label: 'bug', settings: { daysInactive: 180 } },
+]
+
+describe('GitHub Action - Label thresholds', () => {
+  let mockOctokit: any
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+
+    mockOctokit = createMockOctokit()
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  it('should use the label listed first when several labels have a threshold', () => {
+    const config = createConfig({ labelThresholds: LABEL_THRESHOLDS })
+
+    expect(
+      findLabelThreshold(
+        createThread('Issue', 1, '2024-01-01T00:00:00Z', ['Bug', 'question']),
+        config,
+      )?.label,
+    ).toBe('question')
+    expect(
+      findLabelThreshold(
+        createThread('Issue', 2, '2024-01-01T00:00:00Z', ['enhancement']),
+        config,
+      ),
+    ).toBeUndefined()
+  })
+
+  it('should lock issues with the threshold of their label before the inputs', async () => {
+    const config = createConfig({ labelThresholds: LABEL_THRESHOLDS })
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        createThread('Issue', 1, '2024-06-30T00:00:00Z', ['bug', 'spam']),
+        createThread('Issue', 2, '2024-05-01T00:00:00Z', ['question']),
+        createThread('Issue', 3, '2024-04-01T00:00:00Z', ['bug']),
+        createThread('Issue', 4, '2024-04-01T00:00:00Z'),
+      ],
+      config,
+    )
+
+    expect(
+      result.locked.map(({ number, lock_reason }) => ({ number, lock_reason })),
+    ).toEqual([
+      { number: 4, lock_reason: 'resolved' },
+      { number: 2, lock_reason: 'resolved' },
+      { number: 1, lock_reason: 'spam' },
+    ])
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 1,
+      lock_reason: 'spam',
+    })
+    expect(result.skipped).toEqual([
+      { number: 3, title: 'Issue 3', reason: 'Only 91 days of inactivity.' },
+    ])
+    expect(core.setOutput).toHaveBeenCalledWith('locked-issues-count', 3)
+  })
+
+  it('should apply the label thresholds to pull requests', async () => {
+    const config = createConfig({ labelThresholds: LABEL_THRESHOLDS })
+
+    const result = await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        createThread('PullRequest', 1, '2024-05-15T00:00:00Z', ['question']),
+        createThread('PullRequest', 2, '2024-05-15T00:00:00Z', ['bug']),
+      ],
+      config,
+    )
+
+    expect(result.locked.map(({ number }) => number)).toEqual([1])
+    expect(result.skipped).toEqual([
+      {
+        number: 2,
+        title: 'PullRequest 2',
+        reason: 'Only 47 days of inactivity.',
+      },
+    ])
+  })
+
+  it('should let lock rules override the label thresholds', async () => {
+    const config = createConfig({
+      labelThresholds: LABEL_THRESHOLDS,
+      rules: parseLockRules(
+        'rules:\n  - match:\n      labels: question\n    days-inactive: 60\n  - lock-reason: off-topic\n',
+        'config.yml',
+      ),
+    })
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        createThread('Issue', 1, '2024-05-15T00:00:00Z', ['question']),
+        createThread('Issue', 2, '2024-06-30T00:00:00Z', ['spam']),
+      ],
+      config,
+    )
+
+    expect(
+      result.locked.map(({ number, lock_reason }) => ({ number, lock_reason })),
+    ).toEqual([{ number: 2, lock_reason: 'off-topic' }])
+    expect(result.skipped).toEqual([
+      { number: 1, title: 'Issue 1', reason: 'Only 47 days of inactivity.' },
+    ])
+  })
+
+  it('should search for candidates of the lowest label threshold', () => {
+    expect(
+      getSearchFilter(
+        'Issue',
+        createConfig({ labelThresholds: LABEL_THRESHOLDS }),
+      ),
+    ).toEqual({ type: 'Issue', updatedBefore: currentDate })
+  })
+})
@@ -0,0 +1,101 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { processIssues, processPullRequests } from '../index.js'
+import { createLockPool } from '../pool.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import {
+  createConfig,
+  createMockOctokit,
+  createThread,
+  getOutputSummaries,
+} from './helpers.js'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = github as vi.Mocked<typeof github>
+
+describe('GitHub Action - Lock pool', () => {
+  let mockOctokit: any
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+
+    mockOctokit = createMockOctokit()
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  it('should run at most the given number of tasks at once, in order', async () => {
+    const pool = createLockPool(2)
+    const started: number[] = []
+    let active = 0
+    let maxActive = 0
+
+    const results = Promise.all(
+      [1, 2, 3, 4, 5].map((value) =>
+        pool.run(async () => {
+          started.push(value)
+          active++
+          maxActive = Math.max(maxActive, active)
+          await new Promise((resolve) => setTimeout(resolve, 10 * value))
+          active--
+          return value * 2
+        }),
+      ),
+    )
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(await results).toEqual([2, 4, 6, 8, 10])
+    expect(maxActive).toBe(2)
+    expect(started).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should share the pool between issues and PRs with stable outputs', async () => {
+    const pool = createLockPool(2)
+    let active = 0
+    let maxActive = 0
+    mockOctokit.rest.issues.lock.mockImplementation(
+      async ({ issue_number }: { issue_number: number }) => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        // Earlier locks take longer, so they finish out of order
+        await new Promise((resolve) => setTimeout(resolve, 100 / issue_number))
+        active--
+      },
+    )
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    const processing = Promise.all([
+      processIssues(
+        mockOctokit,
+        'test-owner',
+        'test-repo',
+        [1, 2, 3].map((number) => createThread('Issue', number)),
+        createConfig(),
+        { lockPool: pool },
+      ),
+      processPullRequests(
+        mockOctokit,
+        'test-owner',
+        'test-repo',
+        [4, 5, 6].map((number) => createThread('PullRequest', number)),
+        createConfig(),
+        { lockPool: pool },
+      ),
+    ])
+    await vi.advanceTimersByTimeAsync(1000)
+    const [issues, pullRequests] = await processing
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(6)
+    expect(maxActive).toBe(2)
+    expect(issues.locked.map((item) => item.number)).toEqual([1, 2, 3])
+    expect(pullRequests.locked.map((item) => item.number)).toEqual([4, 5, 6])
+    expect(getOutputSummaries('locked-prs')).toEqual([
+      { number: 4, title: 'PullRequest 4' },
+      { number: 5, title: 'PullRequest 5' },
+      { number: 6, title: 'PullRequest 6' },
+    ])
+  })
+})
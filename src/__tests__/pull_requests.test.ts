@@ -1,17 +1,16 @@
 import * as core from '@actions/core'
 import * as github from '@actions/github'
-import { graphql } from '@octokit/graphql'
 import { processPullRequests, fetchThreads } from '../index.js'
 import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { createConfig, getOutputSummaries } from './helpers.js'
 import { Thread } from '../interfaces.js'
 
 vi.mock('@actions/core')
 vi.mock('@actions/github')
-vi.mock('@octokit/graphql')
 
 const mockCore = core as vi.Mocked<typeof core>
 const mockGithub = github as vi.Mocked<typeof github>
-const mockGraphql = graphql as vi.MockedFunction<typeof graphql>
+const mockGraphql = vi.fn()
 
 describe('GitHub Action - Lock PRs', () => {
   let mockOctokit: any
@@ -32,9 +31,13 @@ describe('GitHub Action - Lock PRs', () => {
 
     // Mock Octokit instance with rate limit functionality
     mockOctokit = {
+      graphql: mockGraphql,
       rest: {
         issues: {
           lock: vi.fn(),
+          createComment: vi.fn(),
+          addLabels: vi.fn(),
+          removeLabel: vi.fn(),
         },
         rateLimit: {
           get: vi.fn().mockImplementation(() => {
@@ -106,20 +109,13 @@ describe('GitHub Action - Lock PRs', () => {
     const mockInfo = vi.spyOn(core, 'info')
 
     // Run the action
-    await fetchThreads(
-      mockOctokit,
-      'test-owner',
-      'test-repo',
-      'fake-token',
-      100,
-    )
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
     await processPullRequests(
       mockOctokit,
       'test-owner',
       'test-repo',
       mockItems,
-      30,
-      'off-topic',
+      createConfig({}, { lockReason: 'off-topic' }),
     )
 
     // Assert locking function calls
@@ -137,10 +133,9 @@ describe('GitHub Action - Lock PRs', () => {
     )
 
     // Assert setOutput called with locked PRs
-    expect(mockSetOutput).toHaveBeenCalledWith(
-      'locked-prs',
-      JSON.stringify([{ number: 3, title: 'PR 3' }]),
-    )
+    expect(getOutputSummaries('locked-prs')).toEqual([
+      { number: 3, title: 'PR 3' },
+    ])
   })
 
   it('should not lock PRs that are less then 30 days inactive', async () => {
@@ -182,20 +177,13 @@ describe('GitHub Action - Lock PRs', () => {
     const mockSetOutput = vi.spyOn(core, 'setOutput')
 
     // Run the action
-    await fetchThreads(
-      mockOctokit,
-      'test-owner',
-      'test-repo',
-      'fake-token',
-      100,
-    )
+    await fetchThreads(mockOctokit, 'test-owner', 'test-repo', createConfig())
     await processPullRequests(
       mockOctokit,
       'test-owner',
       'test-repo',
       mockItems,
-      30,
-      'resolved',
+      createConfig(),
     )
 
     // Assert debug messages
@@ -207,6 +195,192 @@ describe('GitHub Action - Lock PRs', () => {
     expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
 
     // Assert setOutput not called for locked prs
-    expect(mockSetOutput).toHaveBeenCalledWith('locked-prs', JSON.stringify([]))
+    expect(getOutputSummaries('locked-prs')).toEqual([])
+  })
+
+  it('should only report inactive PRs in dry-run mode', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'PullRequest',
+        number: 1,
+        title: 'PR 1',
+        updatedAt: '2024-06-30T00:00:00Z',
+        closedAt: '2024-06-30T00:00:00Z',
+        locked: false,
+      },
+      {
+        __typename: 'PullRequest',
+        number: 2,
+        title: 'PR 2',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+    const mockInfo = vi.spyOn(core, 'info')
+
+    await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({ dryRun: true }),
+    )
+
+    // Assert no locking function call
+    expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
+
+    // Assert info message
+    expect(mockInfo).toHaveBeenCalledWith(
+      'Would lock PR #2 due to 30 days of inactivity.',
+    )
+
+    // Assert setOutput called with the PRs that would be locked
+    expect(getOutputSummaries('locked-prs')).toEqual([
+      { number: 2, title: 'PR 2' },
+    ])
+  })
+
+  it('should only lock PRs with an included label', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'PullRequest',
+        number: 1,
+        title: 'PR 1',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+        labels: { nodes: [{ name: 'dependencies' }] },
+      },
+      {
+        __typename: 'PullRequest',
+        number: 2,
+        title: 'PR 2',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({}, { includeLabels: ['dependencies'] }),
+    )
+
+    // Assert only the PR with an included label is locked
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+    expect(core.debug).toHaveBeenCalledWith('PR #2 skipped due to label rules.')
+    expect(getOutputSummaries('locked-prs')).toEqual([
+      { number: 1, title: 'PR 1' },
+    ])
+  })
+
+  it('should not post a comment when the PR comment is empty', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'PullRequest',
+        number: 3,
+        title: 'PR 3',
+        updatedAt: '2024-05-30T00:00:00Z',
+        closedAt: '2024-05-30T00:00:00Z',
+        locked: false,
+      },
+    ]
+
+    await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({}, { comment: '' }),
+    )
+
+    expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should lock PRs that only have recent bot activity', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'PullRequest',
+        number: 3,
+        title: 'PR 3',
+        updatedAt: '2024-06-30T00:00:00Z',
+        closedAt: '2024-05-01T00:00:00Z',
+        locked: false,
+        timelineItems: {
+          nodes: [
+            {
+              createdAt: '2024-05-01T00:00:00Z',
+              actor: { __typename: 'User', login: 'octocat' },
+            },
+            {
+              createdAt: '2024-06-30T00:00:00Z',
+              author: { __typename: 'Bot', login: 'renovate' },
+            },
+          ],
+        },
+      },
+    ]
+
+    await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig({ ignoreBotActivity: true }),
+    )
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should respect the lock budget shared with issues', async () => {
+    const mockItems: Thread[] = [
+      {
+        __typename: 'PullRequest',
+        number: 1,
+        title: 'PR 1',
+        updatedAt: '2024-05-01T00:00:00Z',
+        closedAt: '2024-05-01T00:00:00Z',
+        locked: false,
+      },
+      {
+        __typename: 'PullRequest',
+        number: 2,
+        title: 'PR 2',
+        updatedAt: '2024-01-01T00:00:00Z',
+        closedAt: '2024-01-01T00:00:00Z',
+        locked: false,
+      },
+    ]
+    const lockBudget = { remaining: 1 }
+
+    const mockSetOutput = vi.spyOn(core, 'setOutput')
+
+    await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      mockItems,
+      createConfig(),
+      { lockBudget },
+    )
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+    expect(lockBudget.remaining).toBe(0)
+    expect(getOutputSummaries('locked-prs')).toEqual([
+      { number: 2, title: 'PR 2' },
+    ])
+    expect(mockSetOutput).toHaveBeenCalledWith(
+      'deferred-prs',
+      JSON.stringify([{ number: 1, title: 'PR 1' }]),
+    )
   })
 })
@@ -1,7 +1,15 @@
 import * as core from '@actions/core'
 import * as github from '@actions/github'
-import { run, checkRateLimit } from '../index.js'
+import {
+  run,
+  checkRateLimit,
+  lockItem,
+  processIssues,
+  waitForRateLimitReset,
+} from '../index.js'
+import { RateLimitTracker } from '../interfaces.js'
 import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { createConfig, createThread } from './helpers.js'
 
 vi.mock('@actions/core')
 vi.mock('@actions/github')
@@ -91,13 +99,8 @@ describe('GitHub Action - Rate Limit Handling', () => {
     expect(mockGetRateLimit).toHaveBeenCalled()
     expect(rateLimitStatus.remaining).toEqual(expectedRemaining)
 
-    // Adjusted assertions for reset time with a small tolerance (1 second)
-    expect(rateLimitStatus.resetTime).toBeGreaterThanOrEqual(
-      expectedReset - Math.floor(Date.now() / 1000) - 1,
-    )
-    expect(rateLimitStatus.resetTime).toBeLessThanOrEqual(
-      expectedReset - Math.floor(Date.now() / 1000) + 1,
-    )
+    // The reset time is absolute, so it cannot go stale
+    expect(rateLimitStatus.resetAt).toEqual(expectedReset)
 
     // Adjusted assertions for human-readable reset time
     expect(rateLimitStatus.resetTimeHumanReadable).toEqual(
@@ -113,7 +116,7 @@ describe('GitHub Action - Rate Limit Handling', () => {
     )
   })
 
-  it('should fail and set failed status if rate limit check fails', async () => {
+  it('should throw if rate limit check fails', async () => {
     const mockGetRateLimit = vi
       .fn()
       .mockRejectedValue(new Error('API error') as never)
@@ -126,17 +129,12 @@ describe('GitHub Action - Rate Limit Handling', () => {
       },
     })
 
-    const result = await checkRateLimit(mockGithub.getOctokit('fake-token'))
+    await expect(
+      checkRateLimit(mockGithub.getOctokit('fake-token')),
+    ).rejects.toThrow('Failed to check rate limit: API error')
 
     expect(mockGetRateLimit).toHaveBeenCalled()
-    expect(core.setFailed).toHaveBeenCalledWith(
-      'Failed to check rate limit: API error',
-    )
-    expect(result).toEqual({
-      remaining: 0,
-      resetTime: 0,
-      resetTimeHumanReadable: '',
-    })
+    expect(core.setFailed).not.toHaveBeenCalled()
   })
 
   it('should warn and stop processing if initial rate limit is exceeded', async () => {
@@ -172,4 +170,215 @@ describe('GitHub Action - Rate Limit Handling', () => {
       'Initial rate limit too low, stopping processing.',
     )
   })
+
+  it('should track the rate limit of every API in the response', async () => {
+    const rateLimitTracker: RateLimitTracker = {}
+
+    const status = await checkRateLimit(mockOctokit, 'core', rateLimitTracker)
+
+    expect(rateLimitTracker.core).toBe(status)
+    expect(rateLimitTracker.graphql?.remaining).toBe(5000)
+    expect(mockOctokit.rest.rateLimit.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('should wait for the rate limit reset within the wait budget', async () => {
+    vi.useFakeTimers()
+    const waitBudget = { remainingSeconds: 600 }
+
+    const waiting = waitForRateLimitReset(
+      {
+        remaining: 0,
+        resetAt: Math.floor(Date.now() / 1000) + 299,
+        resetTimeHumanReadable: 'Mon, 01 Jul 2024 00:05:00 GMT',
+      },
+      waitBudget,
+    )
+    await vi.advanceTimersByTimeAsync(300 * 1000)
+
+    expect(await waiting).toBe(true)
+    expect(waitBudget.remainingSeconds).toBe(300)
+    expect(core.info).toHaveBeenCalledWith(
+      'Rate limit reached, waiting 300 seconds until Mon, 01 Jul 2024 00:05:00 GMT.',
+    )
+    vi.useRealTimers()
+  })
+
+  it('should not wait if the reset is beyond the wait budget', async () => {
+    const waitBudget = { remainingSeconds: 60 }
+
+    const result = await waitForRateLimitReset(
+      {
+        remaining: 0,
+        resetAt: Math.floor(Date.now() / 1000) + 3600,
+        resetTimeHumanReadable: 'Mon, 01 Jul 2024 01:00:00 GMT',
+      },
+      waitBudget,
+    )
+
+    expect(result).toBe(false)
+    expect(waitBudget.remainingSeconds).toBe(60)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Rate limit resets at Mon, 01 Jul 2024 01:00:00 GMT, which is beyond the remaining wait time of 60 seconds.',
+    )
+  })
+
+  it('should not wait past the expiry of the installation token', async () => {
+    const waitBudget = {
+      remainingSeconds: 3600,
+      deadline: Date.now() + 600 * 1000,
+    }
+
+    const result = await waitForRateLimitReset(
+      {
+        remaining: 0,
+        resetAt: Math.floor(Date.now() / 1000) + 1800,
+        resetTimeHumanReadable: 'Mon, 01 Jul 2024 00:30:00 GMT',
+      },
+      waitBudget,
+    )
+
+    expect(result).toBe(false)
+    expect(waitBudget.remainingSeconds).toBe(3600)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Rate limit resets at Mon, 01 Jul 2024 00:30:00 GMT, which is after the GitHub App token expires.',
+    )
+  })
+
+  it('should continue processing after waiting for the initial rate limit', async () => {
+    vi.useFakeTimers()
+    mockOctokit.rest.rateLimit.get.mockResolvedValueOnce({
+      data: {
+        resources: {
+          core: {
+            remaining: 50,
+            reset: Math.floor(Date.now() / 1000) + 60,
+          },
+        },
+      },
+    })
+
+    mockCore.getInput.mockImplementation((name) => {
+      if (name === 'repo-token') return 'fake-token'
+      if (name === 'rate-limit-buffer') return '100'
+      if (name === 'max-wait-minutes') return '5'
+      return ''
+    })
+    mockCore.getBooleanInput.mockImplementation(
+      (name) => name === 'wait-for-reset',
+    )
+
+    const running = run()
+    await vi.advanceTimersByTimeAsync(61 * 1000)
+    await running
+
+    expect(mockCore.warning).not.toHaveBeenCalledWith(
+      'Initial rate limit too low, stopping processing.',
+    )
+    expect(core.info).toHaveBeenCalledWith(
+      'Sufficient rate limit available, starting processing.',
+    )
+    vi.useRealTimers()
+  })
+
+  it('should not wait again for every repository after a reset', async () => {
+    vi.useFakeTimers()
+    mockOctokit.rest.rateLimit.get.mockResolvedValueOnce({
+      data: {
+        resources: {
+          core: {
+            remaining: 50,
+            reset: Math.floor(Date.now() / 1000) + 60,
+          },
+        },
+      },
+    })
+
+    mockCore.getInput.mockImplementation((name) => {
+      if (name === 'repo-token') return 'fake-token'
+      if (name === 'rate-limit-buffer') return '100'
+      if (name === 'max-wait-minutes') return '5'
+      if (name === 'repositories') return 'test-owner/one, test-owner/two'
+      return ''
+    })
+    mockCore.getBooleanInput.mockImplementation(
+      (name) => name === 'wait-for-reset',
+    )
+
+    const running = run()
+    await vi.advanceTimersByTimeAsync(61 * 1000)
+    await running
+
+    // The outdated status is checked again instead of waited for again
+    const waits = mockCore.info.mock.calls.filter(([message]) =>
+      message.startsWith('Rate limit reached, waiting'),
+    )
+    expect(waits).toHaveLength(1)
+    expect(mockOctokit.rest.rateLimit.get).toHaveBeenCalledTimes(2)
+    vi.useRealTimers()
+  })
+
+  it('should leave the locks after the rate limit runs out for the next run', async () => {
+    mockOctokit.rest.issues.lock.mockResolvedValueOnce({
+      status: 204,
+      headers: {
+        'x-ratelimit-remaining': '50',
+        'x-ratelimit-reset': `${Math.floor(Date.now() / 1000) + 1800}`,
+        'x-ratelimit-resource': 'core',
+      },
+    })
+    const state = { rateLimitTracker: {}, failures: [] }
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        createThread('Issue', 1, '2023-01-01T00:00:00Z'),
+        createThread('Issue', 2, '2023-02-01T00:00:00Z'),
+        createThread('Issue', 3, '2023-03-01T00:00:00Z'),
+      ],
+      createConfig(),
+      state,
+    )
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+    expect(result.locked.map(({ number }) => number)).toEqual([1])
+    expect(result.deferred).toEqual([
+      { number: 2, title: 'Issue 2' },
+      { number: 3, title: 'Issue 3' },
+    ])
+    expect(result.failed).toEqual([])
+    expect(state.failures).toEqual([])
+    expect(mockCore.warning).toHaveBeenCalledTimes(1)
+  })
+
+  it('should track the rate limit from lock response headers', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 1800
+    mockOctokit.rest.issues.lock.mockResolvedValueOnce({
+      status: 204,
+      headers: {
+        'x-ratelimit-remaining': '4321',
+        'x-ratelimit-reset': `${reset}`,
+        'x-ratelimit-resource': 'core',
+      },
+    })
+    const rateLimitTracker: RateLimitTracker = {}
+
+    await lockItem(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      1,
+      'resolved',
+      0,
+      rateLimitTracker,
+    )
+
+    expect(rateLimitTracker.core).toEqual({
+      remaining: 4321,
+      resetAt: reset,
+      resetTimeHumanReadable: new Date(reset * 1000).toUTCString(),
+    })
+    expect(mockOctokit.rest.rateLimit.get).not.toHaveBeenCalled()
+  })
 })
@@ -0,0 +1,101 @@
+import * as github from '@actions/github'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { processIssues } from '../index.js'
+import { writeReport } from '../report.js'
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
+import { createConfig, createMockOctokit, createThread } from './helpers.js'
+import { ReportItem } from '../interfaces.js'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = github as vi.Mocked<typeof github>
+
+describe('GitHub Action - Report', () => {
+  let mockOctokit: any
+  let directory: string
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+    directory = mkdtempSync(join(tmpdir(), 'inactivity-lock-'))
+
+    mockOctokit = createMockOctokit()
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should report the decision on every evaluated issue', async () => {
+    const state = { report: [] as ReportItem[] }
+
+    await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        createThread('Issue', 1, '2024-01-01T00:00:00Z'),
+        createThread('Issue', 2, '2024-02-01T00:00:00Z'),
+        createThread('Issue', 3, '2024-01-01T00:00:00Z', ['pinned']),
+        createThread('Issue', 4, '2024-06-20T00:00:00Z'),
+      ],
+      createConfig({}, { excludeLabels: ['pinned'], maxLocks: 1 }),
+      state,
+    )
+
+    expect(
+      state.report.map(({ number, decision, reason }) => ({
+        number,
+        decision,
+        reason,
+      })),
+    ).toEqual([
+      { number: 3, decision: 'skipped', reason: 'Excluded by label rules.' },
+      {
+        number: 4,
+        decision: 'skipped',
+        reason: 'Only 11 days of inactivity.',
+      },
+      { number: 2, decision: 'deferred', reason: 'Lock limit reached.' },
+      { number: 1, decision: 'locked', reason: undefined },
+    ])
+    expect(state.report[3]).toEqual({
+      repository: 'test-owner/test-repo',
+      number: 1,
+      title: 'Issue 1',
+      html_url: 'https://github.com/test-owner/test-repo/issues/1',
+      type: 'Issue',
+      days_inactive: 182,
+      inactive_since: '2024-01-01T00:00:00.000Z',
+      lock_reason: 'resolved',
+      decision: 'locked',
+    })
+  })
+
+  it('should write the report file, creating its directory', () => {
+    const path = join(directory, 'reports', 'report.json')
+    const item: ReportItem = {
+      repository: 'test-owner/test-repo',
+      number: 1,
+      title: 'Issue 1',
+      type: 'Issue',
+      days_inactive: 182,
+      inactive_since: '2024-01-01T00:00:00.000Z',
+      decision: 'locked',
+    }
+
+    writeReport(path, [item], true)
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({
+      generated_at: '2024-07-01T00:00:00.000Z',
+      dry_run: true,
+      items: [item],
+    })
+  })
+})
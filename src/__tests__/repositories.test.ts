@@ -0,0 +1,169 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { run, resolveRepositories } from '../index.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { getOutputSummaries } from './helpers.js'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockCore = core as vi.Mocked<typeof core>
+const mockGithub = github as vi.Mocked<typeof github>
+const mockGraphql = vi.fn()
+
+describe('GitHub Action - Repositories', () => {
+  let mockOctokit: any
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+
+    // Mock context.repo using Object.defineProperty
+    Object.defineProperty(mockGithub.context, 'repo', {
+      value: {
+        owner: 'test-owner',
+        repo: 'test-repo',
+      },
+      writable: true, // Ensure it can be modified
+    })
+
+    // Mock Octokit instance with repository listing functionality
+    mockOctokit = {
+      graphql: mockGraphql,
+      paginate: vi.fn().mockResolvedValue([
+        { name: 'action-one', archived: false },
+        { name: 'action-two', archived: true },
+        { name: 'website', archived: false },
+      ]),
+      rest: {
+        repos: {
+          listForOrg: vi.fn(),
+          listForUser: vi.fn(),
+          // Without a config file, the inputs are used
+          getContent: vi
+            .fn()
+            .mockRejectedValue(
+              Object.assign(new Error('Not Found'), { status: 404 }),
+            ),
+        },
+        issues: {
+          lock: vi.fn(),
+        },
+        rateLimit: {
+          get: vi.fn().mockImplementation(() => {
+            // Default mock response for rate limit
+            return Promise.resolve({
+              data: {
+                resources: {
+                  core: {
+                    remaining: 5000,
+                    reset: Math.floor(Date.now() / 1000) + 3600, // Reset time in future
+                  },
+                  graphql: {
+                    remaining: 5000,
+                    reset: Math.floor(Date.now() / 1000) + 3600,
+                  },
+                },
+              },
+            })
+          }),
+        },
+      },
+    }
+
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  it('should resolve explicit repositories, globs and organizations', async () => {
+    const repositories = await resolveRepositories(mockOctokit, [
+      'test-owner/test-repo',
+      'test-org/action-*',
+      'test-org',
+    ])
+
+    expect(mockOctokit.paginate).toHaveBeenCalledWith(
+      mockOctokit.rest.repos.listForOrg,
+      { org: 'test-org', per_page: 100 },
+    )
+    // Archived repositories are skipped and duplicates are removed
+    expect(repositories).toEqual([
+      { owner: 'test-owner', repo: 'test-repo' },
+      { owner: 'test-org', repo: 'action-one' },
+      { owner: 'test-org', repo: 'website' },
+    ])
+  })
+
+  it('should list the repositories of a user account', async () => {
+    mockOctokit.paginate
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Not Found'), { status: 404 }),
+      )
+      .mockResolvedValueOnce([
+        { name: 'dotfiles', archived: false },
+        { name: 'action-three', archived: false },
+      ])
+
+    const repositories = await resolveRepositories(mockOctokit, [
+      'octocat/action-*',
+    ])
+
+    expect(mockOctokit.paginate).toHaveBeenLastCalledWith(
+      mockOctokit.rest.repos.listForUser,
+      { username: 'octocat', type: 'owner', per_page: 100 },
+    )
+    expect(repositories).toEqual([{ owner: 'octocat', repo: 'action-three' }])
+  })
+
+  it('should process every repository and report per repository', async () => {
+    mockCore.getInput.mockImplementation((name) => {
+      if (name === 'repo-token') return 'fake-token'
+      if (name === 'rate-limit-buffer') return '100'
+      if (name === 'days-inactive-issues') return '30'
+      if (name === 'days-inactive-prs') return '30'
+      if (name === 'repositories') return 'test-owner/repo-a, test-owner/repo-b'
+      return ''
+    })
+
+    mockGraphql.mockImplementation(async (_query, variables: any) => ({
+      search: {
+        nodes: [
+          {
+            __typename: 'Issue',
+            number: variables.queryString.includes('repo-a') ? 1 : 2,
+            title: 'Issue',
+            updatedAt: '2024-01-01T00:00:00Z',
+            closedAt: '2024-01-01T00:00:00Z',
+            locked: false,
+          },
+        ],
+        pageInfo: {
+          hasNextPage: false,
+          endCursor: null,
+        },
+      },
+    }))
+
+    await run()
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledWith(
+      expect.objectContaining({ repo: 'repo-a', issue_number: 1 }),
+    )
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledWith(
+      expect.objectContaining({ repo: 'repo-b', issue_number: 2 }),
+    )
+    expect(core.setOutput).toHaveBeenCalledWith(
+      'repository-results',
+      expect.stringContaining('"test-owner/repo-b"'),
+    )
+    expect(getOutputSummaries('locked-issues')).toEqual([
+      { number: 1, title: 'Issue' },
+      { number: 2, title: 'Issue' },
+    ])
+    expect(core.setOutput).toHaveBeenCalledWith(
+      'locked-issues',
+      expect.stringContaining('"repository":"test-owner/repo-b","number":2'),
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('locked-issues-count', 2)
+  })
+})
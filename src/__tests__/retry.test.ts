@@ -0,0 +1,135 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { lockItem } from '../index.js'
+import { getRetryDelay, isRetryableError, withRetry } from '../retry.js'
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = github as vi.Mocked<typeof github>
+
+/**
+ * Creates an error like the ones thrown by Octokit requests.
+ */
+function requestError(
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  return Object.assign(new Error(message), {
+    status,
+    response: { headers },
+  })
+}
+
+describe('GitHub Action - Retry', () => {
+  let mockOctokit: any
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+
+    mockOctokit = {
+      rest: {
+        issues: {
+          lock: vi.fn(),
+        },
+      },
+    }
+
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should split retryable and permanent errors', () => {
+    expect(isRetryableError(requestError(500, 'Server error'))).toBe(true)
+    expect(isRetryableError(requestError(429, 'Too many requests'))).toBe(true)
+    expect(
+      isRetryableError(
+        requestError(403, 'You have exceeded a secondary rate limit'),
+      ),
+    ).toBe(true)
+    expect(isRetryableError(requestError(403, 'Resource not accessible'))).toBe(
+      false,
+    )
+    // An exhausted primary rate limit is left to the wait for the reset
+    expect(
+      isRetryableError(
+        requestError(403, 'API rate limit exceeded', {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': `${Math.floor(Date.now() / 1000) + 3600}`,
+        }),
+      ),
+    ).toBe(false)
+    expect(isRetryableError(requestError(404, 'Not found'))).toBe(false)
+    expect(isRetryableError(requestError(410, 'Gone'))).toBe(false)
+    expect(isRetryableError(new Error('API error'))).toBe(false)
+  })
+
+  it('should honor retry-after and back off exponentially', () => {
+    expect(
+      getRetryDelay(requestError(403, 'Limit', { 'retry-after': '30' }), 1),
+    ).toBe(30000)
+    expect(getRetryDelay(requestError(502, 'Bad gateway'), 1)).toBe(1000)
+    expect(getRetryDelay(requestError(502, 'Bad gateway'), 3)).toBe(4000)
+    expect(getRetryDelay(requestError(502, 'Bad gateway'), 10)).toBe(60000)
+  })
+
+  it('should retry until the request succeeds', async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(requestError(502, 'Bad gateway'))
+      .mockRejectedValueOnce(requestError(502, 'Bad gateway'))
+      .mockResolvedValueOnce('locked')
+
+    const result = withRetry(request, 'locking issue/PR #1', 3)
+    await vi.advanceTimersByTimeAsync(3000)
+
+    expect(await result).toBe('locked')
+    expect(request).toHaveBeenCalledTimes(3)
+    expect(core.info).toHaveBeenCalledWith(
+      'Retrying locking issue/PR #1 in 1 seconds (attempt 1 of 3).',
+    )
+  })
+
+  it('should not retry permanent errors when locking', async () => {
+    mockOctokit.rest.issues.lock.mockRejectedValueOnce(
+      requestError(404, 'Not Found'),
+    )
+
+    const result = await lockItem(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      1,
+      'resolved',
+      3,
+    )
+
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledTimes(1)
+    expect(result).toEqual({ status: 'failed', reason: 'Not Found' })
+  })
+
+  it('should not fail on items that are already locked', async () => {
+    mockOctokit.rest.issues.lock.mockRejectedValueOnce(
+      requestError(422, 'Issue is already locked'),
+    )
+
+    const result = await lockItem(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      1,
+      'resolved',
+      3,
+    )
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Already locked.' })
+    expect(core.info).toHaveBeenCalledWith('Issue/PR #1 is already locked.')
+  })
+})
@@ -0,0 +1,300 @@
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {
+  matchesRule,
+  processIssues,
+  processPullRequests,
+  processRepository,
+} from '../index.js'
+import { loadLockRules, parseLockRules } from '../rules.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { createConfig, createMockOctokit, createThread } from './helpers.js'
+import { FailedItem, Thread } from '../interfaces.js'
+
+vi.mock('@actions/core')
+vi.mock('@actions/github')
+
+const mockGithub = github as vi.Mocked<typeof github>
+
+const CONFIG_FILE = `
+rules:
+  - name: Spam
+    match:
+      labels: spam
+    days-inactive: 0
+    lock-reason: spam
+  - name: Questions
+    match:
+      type: issue
+      labels: [question]
+      exclude-labels: [pinned]
+    days-inactive: 30
+    comment: Locked after {days} days.
+  - match:
+      type: pr
+      author: "dependabot[bot]"
+      closed-state: unmerged
+    lock-reason: none
+    add-labels: [locked]
+`
+
+describe('GitHub Action - Lock rules', () => {
+  let mockOctokit: any
+  const currentDate = new Date('2024-07-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers().setSystemTime(currentDate)
+
+    mockOctokit = createMockOctokit()
+    mockGithub.getOctokit.mockReturnValue(mockOctokit)
+  })
+
+  it('should parse the rules of a config file in order', () => {
+    const rules = parseLockRules(CONFIG_FILE, '.github/inactivity-lock.yml')
+
+    expect(rules).toEqual([
+      {
+        name: 'Spam',
+        match: { labels: ['spam'], excludeLabels: [], authors: [] },
+        settings: { daysInactive: 0, lockReason: 'spam' },
+      },
+      {
+        name: 'Questions',
+        match: {
+          type: 'Issue',
+          labels: ['question'],
+          excludeLabels: ['pinned'],
+          authors: [],
+        },
+        settings: { daysInactive: 30, comment: 'Locked after {days} days.' },
+      },
+      {
+        name: 'rules[2]',
+        match: {
+          type: 'PullRequest',
+          labels: [],
+          excludeLabels: [],
+          authors: ['dependabot[bot]'],
+          closedState: 'unmerged',
+        },
+        settings: { lockReason: undefined, addLabels: ['locked'] },
+      },
+    ])
+    // An explicit `none` overrides the lock reason of the inputs
+    expect('lockReason' in rules[2].settings).toBe(true)
+  })
+
+  it('should reject invalid config files', () => {
+    const path = '.github/inactivity-lock.yml'
+    expect(() => parseLockRules('rules: []', path)).toThrow(
+      'Invalid config file .github/inactivity-lock.yml: expected a non-empty list of rules.',
+    )
+    expect(() => parseLockRules('rules:\n  - days-inactiv: 30', path)).toThrow(
+      'Invalid config file .github/inactivity-lock.yml: rules[0].days-inactiv is not a known key, expected one of: name, match, days-inactive, lock-reason, comment, add-labels, remove-labels.',
+    )
+    expect(() =>
+      parseLockRules('rules:\n  - lock-reason: resolvd', path),
+    ).toThrow(
+      "Invalid config file .github/inactivity-lock.yml: rules[0].lock-reason 'resolvd', expected one of: off-topic, too heated, resolved, spam, none.",
+    )
+    expect(() =>
+      parseLockRules('rules:\n  - match:\n      type: discussion', path),
+    ).toThrow(
+      "Invalid config file .github/inactivity-lock.yml: rules[0].match.type 'discussion', expected one of: issue, pr.",
+    )
+  })
+
+  it('should load the config file from the repository', async () => {
+    mockOctokit.rest.repos.getContent.mockResolvedValueOnce({
+      data: {
+        type: 'file',
+        content: Buffer.from(CONFIG_FILE).toString('base64'),
+      },
+    })
+
+    const rules = await loadLockRules(mockOctokit, 'test-owner', 'test-repo')
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: '.github/inactivity-lock.yml',
+    })
+    expect(rules?.map(({ name }) => name)).toEqual([
+      'Spam',
+      'Questions',
+      'rules[2]',
+    ])
+  })
+
+  it('should use the inputs when the repository has no config file', async () => {
+    mockOctokit.rest.repos.getContent.mockRejectedValueOnce(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    )
+
+    const rules = await loadLockRules(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      'config/lock.yml',
+    )
+
+    expect(rules).toBeUndefined()
+    expect(core.info).toHaveBeenCalledWith(
+      'No config file found at config/lock.yml in test-owner/test-repo, using the inputs.',
+    )
+  })
+
+  it('should only fall back to the inputs on a 403 for the default path', async () => {
+    const forbidden = Object.assign(new Error('Resource not accessible'), {
+      status: 403,
+    })
+    mockOctokit.rest.repos.getContent.mockRejectedValue(forbidden)
+
+    await expect(
+      loadLockRules(mockOctokit, 'test-owner', 'test-repo'),
+    ).resolves.toBeUndefined()
+    expect(core.info).toHaveBeenCalledWith(
+      'No config file found at .github/inactivity-lock.yml in test-owner/test-repo, using the inputs.',
+    )
+    await expect(
+      loadLockRules(mockOctokit, 'test-owner', 'test-repo', 'config/lock.yml'),
+    ).rejects.toBe(forbidden)
+  })
+
+  it('should match on type, labels, author and closed state', () => {
+    const rules = parseLockRules(CONFIG_FILE, 'config.yml')
+    const pullRequest = {
+      ...createThread('PullRequest', 1, '2024-01-01T00:00:00Z'),
+      author: { login: 'Dependabot' },
+    }
+
+    expect(matchesRule(pullRequest, rules[2].match)).toBe(true)
+    expect(matchesRule({ ...pullRequest, merged: true }, rules[2].match)).toBe(
+      false,
+    )
+    expect(
+      matchesRule(
+        createThread('Issue', 2, '2024-01-01T00:00:00Z', ['question']),
+        rules[1].match,
+      ),
+    ).toBe(true)
+    expect(
+      matchesRule(
+        createThread('Issue', 3, '2024-01-01T00:00:00Z', [
+          'question',
+          'pinned',
+        ]),
+        rules[1].match,
+      ),
+    ).toBe(false)
+  })
+
+  it('should lock every issue with the first rule it matches', async () => {
+    const config = createConfig({
+      rules: parseLockRules(CONFIG_FILE, 'config.yml'),
+    })
+
+    const result = await processIssues(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        // Matches the spam rule before the questions rule
+        createThread('Issue', 1, '2024-06-30T00:00:00Z', ['question', 'spam']),
+        createThread('Issue', 2, '2024-05-01T00:00:00Z', ['question']),
+        createThread('Issue', 3, '2024-06-20T00:00:00Z', ['question']),
+        createThread('Issue', 4, '2024-01-01T00:00:00Z', ['bug']),
+      ],
+      config,
+    )
+
+    expect(
+      result.locked.map(({ number, lock_reason }) => ({ number, lock_reason })),
+    ).toEqual([
+      { number: 2, lock_reason: 'resolved' },
+      { number: 1, lock_reason: 'spam' },
+    ])
+    expect(mockOctokit.rest.issues.lock).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 1,
+      lock_reason: 'spam',
+    })
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledTimes(1)
+    expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        issue_number: 2,
+        body: 'Locked after 30 days.',
+      }),
+    )
+    expect(result.skipped).toEqual([
+      { number: 3, title: 'Issue 3', reason: 'Only 11 days of inactivity.' },
+      { number: 4, title: 'Issue 4', reason: 'No lock rule matches.' },
+    ])
+  })
+
+  it('should batch pull requests by the lock reason of their rule', async () => {
+    mockOctokit.graphql.mockResolvedValue({})
+    const config = createConfig({
+      lockBatchSize: 50,
+      rules: parseLockRules(CONFIG_FILE, 'config.yml'),
+    })
+    const dependabot = (number: number): Thread => ({
+      ...createThread('PullRequest', number, '2024-01-01T00:00:00Z'),
+      id: `PR_${number}`,
+      author: { login: 'dependabot' },
+    })
+
+    await processPullRequests(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      [
+        dependabot(1),
+        { ...dependabot(2), labels: { nodes: [{ name: 'spam' }] } },
+        dependabot(3),
+      ],
+      config,
+    )
+
+    expect(mockOctokit.graphql).toHaveBeenCalledTimes(2)
+    expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.any(String), {
+      lockReason: null,
+      id0: 'PR_1',
+      id1: 'PR_3',
+    })
+    expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.any(String), {
+      lockReason: 'SPAM',
+      id0: 'PR_2',
+    })
+  })
+
+  it('should skip a repository with an invalid config file', async () => {
+    mockOctokit.rest.repos.getContent.mockResolvedValueOnce({
+      data: {
+        type: 'file',
+        content: Buffer.from('rules: yes').toString('base64'),
+      },
+    })
+    const state = { failures: [] as FailedItem[] }
+
+    const result = await processRepository(
+      mockOctokit,
+      'test-owner',
+      'test-repo',
+      createConfig(),
+      state,
+    )
+
+    expect(mockOctokit.graphql).not.toHaveBeenCalled()
+    expect(result.issues.locked).toEqual([])
+    expect(state.failures).toEqual([
+      {
+        repository: 'test-owner/test-repo',
+        reason:
+          'Failed to load lock rules: Invalid config file .github/inactivity-lock.yml: expected a non-empty list of rules.',
+      },
+    ])
+  })
+})
@@ -29,6 +29,14 @@ describe('GitHub Action - Run', () => {
         search: {
           issuesAndPullRequests: vi.fn(),
         },
+        repos: {
+          // Without a config file, the inputs are used
+          getContent: vi
+            .fn()
+            .mockRejectedValue(
+              Object.assign(new Error('Not Found'), { status: 404 }),
+            ),
+        },
         issues: {
           lock: vi.fn(),
         },
@@ -71,13 +79,115 @@ describe('GitHub Action - Run', () => {
     await run()
 
     expect(core.getInput).toHaveBeenCalledWith('repo-token')
+    expect(core.getInput).toHaveBeenCalledWith('app-id')
+    expect(core.getInput).toHaveBeenCalledWith('app-private-key')
+    expect(core.getInput).toHaveBeenCalledWith('installation-id')
     expect(core.getInput).toHaveBeenCalledWith('rate-limit-buffer')
     expect(core.getInput).toHaveBeenCalledWith('days-inactive-issues')
     expect(core.getInput).toHaveBeenCalledWith('days-inactive-prs')
     expect(core.getInput).toHaveBeenCalledWith('lock-reason-issues')
     expect(core.getInput).toHaveBeenCalledWith('lock-reason-prs')
+    expect(core.getInput).toHaveBeenCalledWith('exclude-issue-labels')
+    expect(core.getInput).toHaveBeenCalledWith('exclude-pr-labels')
+    expect(core.getInput).toHaveBeenCalledWith('include-issue-labels')
+    expect(core.getInput).toHaveBeenCalledWith('include-pr-labels')
+    expect(core.getInput).toHaveBeenCalledWith('issue-comment')
+    expect(core.getInput).toHaveBeenCalledWith('pr-comment')
+    expect(core.getInput).toHaveBeenCalledWith('add-issue-labels')
+    expect(core.getInput).toHaveBeenCalledWith('add-pr-labels')
+    expect(core.getInput).toHaveBeenCalledWith('remove-issue-labels')
+    expect(core.getInput).toHaveBeenCalledWith('remove-pr-labels')
+    expect(core.getInput).toHaveBeenCalledWith('inactivity-basis')
+    expect(core.getInput).toHaveBeenCalledWith('ignore-actors')
+    expect(core.getInput).toHaveBeenCalledWith('max-locks-per-run')
+    expect(core.getInput).toHaveBeenCalledWith('max-locks-issues')
+    expect(core.getInput).toHaveBeenCalledWith('max-locks-prs')
+    expect(core.getInput).toHaveBeenCalledWith('repositories')
+    expect(core.getInput).toHaveBeenCalledWith('lock-batch-size')
+    expect(core.getInput).toHaveBeenCalledWith('lock-concurrency')
+    expect(core.getInput).toHaveBeenCalledWith('max-retries')
+    expect(core.getInput).toHaveBeenCalledWith('max-wait-minutes')
+    expect(core.getInput).toHaveBeenCalledWith('checkpoint-path')
+    expect(core.getInput).toHaveBeenCalledWith('api-url')
+    expect(core.getInput).toHaveBeenCalledWith('fail-on-error')
+    expect(core.getInput).toHaveBeenCalledWith('report-path')
+    expect(core.getInput).toHaveBeenCalledWith('config-path')
+    expect(core.getInput).toHaveBeenCalledWith('label-thresholds')
+    expect(core.getBooleanInput).toHaveBeenCalledWith('ignore-bot-activity')
+    expect(core.getBooleanInput).toHaveBeenCalledWith('dry-run')
+    expect(core.getBooleanInput).toHaveBeenCalledWith('wait-for-reset')
+
+    // Ensure getInput is called 35 times
+    expect(core.getInput).toHaveBeenCalledTimes(35)
+  })
+
+  it('should fail on an invalid inactivity basis', async () => {
+    vi.mocked(core.getInput).mockImplementation((name) => {
+      if (name === 'inactivity-basis') return 'created'
+      return ''
+    })
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      "Action failed with error: Invalid inactivity-basis 'created', expected one of: updated, closed, last-comment, latest-of.",
+    )
+    expect(mockOctokit.rest.issues.lock).not.toHaveBeenCalled()
+  })
+
+  it('should send REST and GraphQL requests to a custom API URL', async () => {
+    vi.mocked(core.getInput).mockImplementation((name) => {
+      if (name === 'repo-token') return 'fake-token'
+      if (name === 'api-url') return 'https://github.example.com/api/v3'
+      return ''
+    })
+
+    await run()
+
+    expect(github.getOctokit).toHaveBeenCalledWith('fake-token', {
+      baseUrl: 'https://github.example.com/api/v3',
+    })
+  })
+
+  it('should fail once the failures reach the fail-on-error threshold', async () => {
+    mockOctokit.graphql = vi.fn().mockRejectedValue(new Error('API error'))
+    vi.mocked(core.getInput).mockImplementation((name) => {
+      if (name === 'fail-on-error') return '2'
+      return ''
+    })
+
+    await run()
+
+    expect(core.setOutput).toHaveBeenCalledWith(
+      'failed-items',
+      JSON.stringify([
+        {
+          repository: 'test-owner/test-repo',
+          reason: 'Failed to fetch issues and PRs using GraphQL: API error',
+        },
+        {
+          repository: 'test-owner/test-repo',
+          reason: 'Failed to fetch issues and PRs using GraphQL: API error',
+        },
+      ]),
+    )
+    expect(core.setFailed).toHaveBeenCalledWith(
+      '2 issues/PRs or searches failed, see the failed-items output.',
+    )
+  })
+
+  it('should not fail on failures when fail-on-error is never', async () => {
+    mockOctokit.graphql = vi.fn().mockRejectedValue(new Error('API error'))
+    vi.mocked(core.getInput).mockImplementation((name) => {
+      if (name === 'fail-on-error') return 'never'
+      return ''
+    })
+
+    await run()
 
-    // Ensure getInput is called 6 times
-    expect(core.getInput).toHaveBeenCalledTimes(6)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to fetch issues and PRs using GraphQL: API error',
+    )
+    expect(core.setFailed).not.toHaveBeenCalled()
   })
 })
@@ -0,0 +1,107 @@
+import * as core from '@actions/core'
+import { writeJobSummary } from '../summary.js'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { ProcessResult } from '../interfaces.js'
+
+vi.mock('@actions/core')
+
+const mockCore = core as vi.Mocked<typeof core>
+
+/**
+ * Creates an empty processing result.
+ */
+function emptyResult(): ProcessResult {
+  return { locked: [], labeled: [], deferred: [], skipped: [], failed: [] }
+}
+
+describe('GitHub Action - Job Summary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should summarize the locked, skipped and failed items', async () => {
+    const issues = emptyResult()
+    issues.locked.push({
+      number: 1,
+      title: 'Crash on <script>',
+      html_url: 'https://github.com/test-owner/test-repo/issues/1',
+      type: 'Issue',
+      days_inactive: 45,
+      inactive_since: '2024-05-17T00:00:00.000Z',
+      lock_reason: 'resolved',
+    })
+    issues.skipped.push({
+      number: 2,
+      title: 'Pinned',
+      reason: 'Excluded by label rules.',
+    })
+    const pullRequests = emptyResult()
+    pullRequests.failed.push({ number: 3, title: 'PR', reason: 'Not Found' })
+    const graphql = { remaining: 5000, resetAt: 0, resetTimeHumanReadable: '' }
+
+    await writeJobSummary(
+      { 'test-owner/test-repo': { issues, pullRequests } },
+      [
+        {
+          repository: 'test-owner/test-repo',
+          number: 3,
+          title: 'PR',
+          reason: 'Not Found',
+        },
+      ],
+      {
+        core: { remaining: 5000, resetAt: 0, resetTimeHumanReadable: '' },
+        graphql,
+      },
+      {
+        core: { remaining: 4990, resetAt: 0, resetTimeHumanReadable: '' },
+        graphql,
+      },
+    )
+
+    const tables = mockCore.summary.addTable.mock.calls.map(([rows]) => rows)
+    // Totals per type
+    expect(tables[0].slice(1)).toEqual([
+      ['Issues', '1', '1', '0', '0'],
+      ['Pull requests', '0', '0', '1', '0'],
+    ])
+    // Locked items, with a link and an escaped title
+    expect(tables[1][1]).toEqual([
+      '<a href="https://github.com/test-owner/test-repo/issues/1">test-owner/test-repo#1</a>',
+      'Crash on &lt;script&gt;',
+      'Issues',
+      '45',
+      'resolved',
+    ])
+    expect(tables[2][1]).toEqual([
+      'test-owner/test-repo#2',
+      'Pinned',
+      'Excluded by label rules.',
+    ])
+    expect(tables[3][1]).toEqual(['test-owner/test-repo#3', 'PR', 'Not Found'])
+    // Rate limit before and after, blank when it was not refreshed
+    expect(tables[4].slice(1)).toEqual([
+      ['core', '5000', '4990'],
+      ['graphql', '5000', ''],
+    ])
+    expect(mockCore.summary.write).toHaveBeenCalled()
+  })
+
+  it('should warn when the summary cannot be written', async () => {
+    mockCore.summary.write.mockRejectedValueOnce(
+      new Error(
+        'Unable to find environment variable for $GITHUB_STEP_SUMMARY.',
+      ),
+    )
+
+    await writeJobSummary({}, [], {}, {})
+
+    expect(mockCore.summary.addRaw).toHaveBeenCalledWith(
+      'No issues or pull requests were locked.',
+      true,
+    )
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'Failed to write job summary: Unable to find environment variable for $GITHUB_STEP_SUMMARY.',
+    )
+  })
+})
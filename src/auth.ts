@@ -0,0 +1,87 @@
+import * as core from '@actions/core'
+import { context, getOctokit } from '@actions/github'
+import { createSign } from 'node:crypto'
+
+import { InstallationToken } from './interfaces'
+
+/**
+ * Lifetime of the app JWT, GitHub accepts at most 10 minutes.
+ */
+const JWT_LIFETIME_SECONDS = 9 * 60
+
+/**
+ * Encodes a value as base64url, as used in JWTs.
+ * @param value Value to encode.
+ * @returns Base64url encoded value.
+ */
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+/**
+ * Creates a JWT to authenticate as a GitHub App.
+ * The issue time is set a minute in the past to allow for clock drift.
+ * @param appId ID of the GitHub App.
+ * @param privateKey PEM encoded private key of the GitHub App.
+ * @param now Current time in milliseconds.
+ * @returns Signed JWT for the GitHub App.
+ */
+export function createAppJwt(
+  appId: string,
+  privateKey: string,
+  now = Date.now(),
+): string {
+  const issuedAt = Math.floor(now / 1000) - 60
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))
+  const payload = base64url(
+    JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + JWT_LIFETIME_SECONDS,
+      iss: appId,
+    }),
+  )
+
+  // Secrets are often stored with escaped newlines
+  const key = privateKey.replace(/\\n/g, '\n')
+  const signature = createSign('RSA-SHA256')
+    .update(`${header}.${payload}`)
+    .sign(key)
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+/**
+ * Mints an installation access token for a GitHub App. Without an
+ * installation ID, the installation on the repository of the workflow is used.
+ * @param appId ID of the GitHub App.
+ * @param privateKey PEM encoded private key of the GitHub App.
+ * @param installationId Optional ID of the installation.
+ * @param options Octokit options, like the base URL of the API.
+ * @returns Promise that resolves to the installation access token, which
+ * expires after an hour.
+ * @throws Error if the token cannot be created.
+ */
+export async function getInstallationToken(
+  appId: string,
+  privateKey: string,
+  installationId?: number,
+  options: Parameters<typeof getOctokit>[1] = {},
+): Promise<InstallationToken> {
+  const appOctokit = getOctokit(createAppJwt(appId, privateKey), options)
+
+  let id = installationId
+  if (!id) {
+    const { owner, repo } = context.repo
+    const { data } = await appOctokit.rest.apps.getRepoInstallation({
+      owner,
+      repo,
+    })
+    id = data.id
+  }
+
+  const { data } = await appOctokit.rest.apps.createInstallationAccessToken({
+    installation_id: id,
+  })
+  core.setSecret(data.token)
+  core.info(`Authenticated as GitHub App ${appId}, installation ${id}.`)
+  return { token: data.token, expiresAt: data.expires_at }
+}
@@ -0,0 +1,89 @@
+import * as core from '@actions/core'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+
+import { RepositoryCheckpoint, SearchCheckpoint } from './interfaces'
+
+/**
+ * Loads the checkpoints of the previous run from the state file.
+ * A missing or unreadable file starts every repository from the beginning,
+ * and a search with an invalid checkpoint starts from the beginning too.
+ * @param path Path of the state file.
+ * @returns Checkpoints by repository, as `owner/repo`.
+ */
+export function loadCheckpoints(
+  path: string,
+): Record<string, RepositoryCheckpoint> {
+  if (!existsSync(path)) {
+    return {}
+  }
+  let checkpoints: Record<string, RepositoryCheckpoint>
+  try {
+    checkpoints = JSON.parse(readFileSync(path, 'utf8'))
+    if (typeof checkpoints !== 'object' || checkpoints === null) {
+      throw new Error('expected an object')
+    }
+  } catch (error) {
+    core.warning(
+      `Ignoring invalid checkpoint file ${path}: ${(error as Error).message}`,
+    )
+    return {}
+  }
+
+  const valid: Record<string, RepositoryCheckpoint> = {}
+  for (const [repository, checkpoint] of Object.entries(checkpoints)) {
+    valid[repository] = {}
+    for (const type of ['Issue', 'PullRequest'] as const) {
+      const search = (checkpoint as RepositoryCheckpoint | null)?.[type]
+      if (search === undefined) {
+        continue
+      }
+      if (isValidSearchCheckpoint(search)) {
+        valid[repository][type] = search
+      } else {
+        core.warning(
+          `Ignoring invalid ${type} checkpoint for ${repository}: ${JSON.stringify(search)}`,
+        )
+      }
+    }
+  }
+  return valid
+}
+
+/**
+ * Checks whether the dates of a search checkpoint can be resumed from.
+ * @param search Search checkpoint as read from the state file.
+ * @returns True if every date that is set is a valid ISO date.
+ */
+function isValidSearchCheckpoint(search: unknown): search is SearchCheckpoint {
+  if (typeof search !== 'object' || search === null) {
+    return false
+  }
+  const { closedAfter, updatedAfter } = search as Record<string, unknown>
+  return [closedAfter, updatedAfter].every(
+    (date) =>
+      date === undefined ||
+      (typeof date === 'string' &&
+        /^\d{4}-\d{2}-\d{2}T/.test(date) &&
+        !isNaN(new Date(date).getTime())),
+  )
+}
+
+/**
+ * Writes the checkpoints to the state file, leaving out the repositories
+ * that were processed completely.
+ * @param path Path of the state file.
+ * @param checkpoints Checkpoints by repository, as `owner/repo`.
+ */
+export function saveCheckpoints(
+  path: string,
+  checkpoints: Record<string, RepositoryCheckpoint>,
+): void {
+  const pending = Object.fromEntries(
+    Object.entries(checkpoints).filter(
+      ([, checkpoint]) => checkpoint.Issue || checkpoint.PullRequest,
+    ),
+  )
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, `${JSON.stringify(pending, null, 2)}\n`)
+}
@@ -0,0 +1,260 @@
+import * as core from '@actions/core'
+import { parse } from 'yaml'
+
+import {
+  ActionConfig,
+  InactivityBasis,
+  LabelThreshold,
+  LockReason,
+  ThreadConfig,
+} from './interfaces'
+
+const INACTIVITY_BASES: InactivityBasis[] = [
+  'updated',
+  'closed',
+  'last-comment',
+  'latest-of',
+]
+
+export const LOCK_REASONS: (LockReason | 'none')[] = [
+  'off-topic',
+  'too heated',
+  'resolved',
+  'spam',
+  'none',
+]
+
+/**
+ * Parses a comma or newline separated input into a list of values.
+ * @param input Raw input value.
+ * @returns List of trimmed, non-empty values.
+ */
+export function parseListInput(input: string): string[] {
+  return (input ?? '')
+    .split(/[,\n]/)
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+}
+
+/**
+ * Reads a whole number input and checks that it is within range.
+ * @param name Name of the input.
+ * @param defaultValue Value to use when the input is empty.
+ * @param min Lowest allowed value.
+ * @param max Optional highest allowed value.
+ * @returns Value of the input.
+ * @throws Error if the input is not a whole number within range.
+ */
+function getNumberInput(
+  name: string,
+  defaultValue: number,
+  min: number,
+  max?: number,
+): number {
+  const input = core.getInput(name).trim()
+  if (input === '') {
+    return defaultValue
+  }
+
+  const value = Number(input)
+  if (
+    !Number.isInteger(value) ||
+    value < min ||
+    (max !== undefined && value > max)
+  ) {
+    const range =
+      max === undefined ? `of at least ${min}` : `from ${min} to ${max}`
+    throw new Error(
+      `Invalid ${name} '${input}', expected a whole number ${range}.`,
+    )
+  }
+  return value
+}
+
+/**
+ * Reads an input that must be one of a list of allowed values.
+ * @param name Name of the input.
+ * @param allowed Allowed values.
+ * @param defaultValue Value to use when the input is empty.
+ * @returns Value of the input.
+ * @throws Error if the input is not one of the allowed values.
+ */
+function getChoiceInput<T extends string>(
+  name: string,
+  allowed: T[],
+  defaultValue: T,
+): T {
+  const input = core.getInput(name).trim()
+  if (input === '') {
+    return defaultValue
+  }
+  if (!allowed.includes(input as T)) {
+    throw new Error(
+      `Invalid ${name} '${input}', expected one of: ${allowed.join(', ')}.`,
+    )
+  }
+  return input as T
+}
+
+/**
+ * Reads the `fail-on-error` policy input.
+ * @returns Number of failures that fails the job, 0 to never fail.
+ * @throws Error if the input is not `never`, `any` or a whole number.
+ */
+function getFailOnError(): number {
+  const input = core.getInput('fail-on-error').trim()
+  if (input === 'never') {
+    return 0
+  }
+  if (input === '' || input === 'any') {
+    return 1
+  }
+
+  const value = Number(input)
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(
+      `Invalid fail-on-error '${input}', expected never, any or a whole number of at least 1.`,
+    )
+  }
+  return value
+}
+
+/**
+ * Reads the `label-thresholds` input, a YAML mapping from label names to a
+ * number of days, or to an object with `days-inactive` and `lock-reason`.
+ * @returns Thresholds per label, in the order of the input.
+ * @throws Error if the input is not a valid mapping.
+ */
+function getLabelThresholds(): LabelThreshold[] {
+  const input = core.getInput('label-thresholds').trim()
+  if (input === '') {
+    return []
+  }
+  const fail = (message: string): never => {
+    throw new Error(`Invalid label-thresholds: ${message}`)
+  }
+
+  let mapping: unknown
+  try {
+    mapping = parse(input)
+  } catch (error) {
+    fail((error as Error).message)
+  }
+  if (
+    typeof mapping !== 'object' ||
+    mapping === null ||
+    Array.isArray(mapping)
+  ) {
+    return fail('expected a mapping from labels to days or settings.')
+  }
+
+  return Object.entries(mapping).map(([label, value]) => {
+    const values: Record<string, unknown> =
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? value
+        : { 'days-inactive': value }
+    const settings: LabelThreshold['settings'] = {}
+
+    const unknown = Object.keys(values).find(
+      (key) => key !== 'days-inactive' && key !== 'lock-reason',
+    )
+    if (unknown !== undefined) {
+      fail(
+        `${label}.${unknown} is not a known key, expected one of: days-inactive, lock-reason.`,
+      )
+    }
+    const days = values['days-inactive']
+    if (days !== undefined) {
+      if (!Number.isInteger(days) || (days as number) < 0) {
+        fail(
+          `${label}.days-inactive '${days}', expected a whole number of at least 0.`,
+        )
+      }
+      settings.daysInactive = days as number
+    }
+    const reason = values['lock-reason'] as LockReason | 'none' | undefined
+    if (reason !== undefined) {
+      if (!LOCK_REASONS.includes(reason)) {
+        fail(
+          `${label}.lock-reason '${reason}', expected one of: ${LOCK_REASONS.join(', ')}.`,
+        )
+      }
+      // Set even for `none`, so the label overrides the reason of the inputs
+      settings.lockReason = reason === 'none' ? undefined : reason
+    }
+    return { label, settings }
+  })
+}
+
+/**
+ * Reads the configuration for one type of thread.
+ * @param type Name of the type in the inputs, `issue` or `pr`.
+ * @returns Configuration for the type.
+ * @throws Error if an input is invalid.
+ */
+function getThreadConfig(type: 'issue' | 'pr'): ThreadConfig {
+  // An empty lock reason has always meant no reason, like `none`
+  const lockReason = getChoiceInput(
+    `lock-reason-${type}s`,
+    LOCK_REASONS,
+    'none',
+  )
+
+  return {
+    daysInactive: getNumberInput(`days-inactive-${type}s`, 90, 0),
+    lockReason: lockReason === 'none' ? undefined : lockReason,
+    excludeLabels: parseListInput(core.getInput(`exclude-${type}-labels`)),
+    includeLabels: parseListInput(core.getInput(`include-${type}-labels`)),
+    comment: core.getInput(`${type}-comment`),
+    addLabels: parseListInput(core.getInput(`add-${type}-labels`)),
+    removeLabels: parseListInput(core.getInput(`remove-${type}-labels`)),
+    maxLocks: getNumberInput(`max-locks-${type}s`, 0, 0),
+  }
+}
+
+/**
+ * Reads and validates all inputs of the action.
+ * @returns Configuration of the action.
+ * @throws Error with a readable message if an input is invalid.
+ */
+export function getConfig(): ActionConfig {
+  const repoToken = core.getInput('repo-token')
+  const appId = core.getInput('app-id')
+  const appPrivateKey = core.getInput('app-private-key')
+  const installationId = getNumberInput('installation-id', 0, 1) || undefined
+  if (appId && !appPrivateKey) {
+    throw new Error('app-private-key is required when app-id is set.')
+  }
+
+  return {
+    repoToken,
+    appId,
+    appPrivateKey,
+    installationId,
+    apiUrl: core.getInput('api-url'),
+    rateLimitBuffer: getNumberInput('rate-limit-buffer', 100, 0),
+    repositories: parseListInput(core.getInput('repositories')),
+    inactivityBasis: getChoiceInput(
+      'inactivity-basis',
+      INACTIVITY_BASES,
+      'updated',
+    ),
+    ignoreBotActivity: core.getBooleanInput('ignore-bot-activity'),
+    ignoreActors: parseListInput(core.getInput('ignore-actors')),
+    maxLocksPerRun: getNumberInput('max-locks-per-run', 0, 0),
+    maxRetries: getNumberInput('max-retries', 3, 0, 10),
+    // Every lock in a batch is a separate mutation in the same request
+    lockBatchSize: getNumberInput('lock-batch-size', 0, 0, 100),
+    lockConcurrency: getNumberInput('lock-concurrency', 1, 1),
+    waitForReset: core.getBooleanInput('wait-for-reset'),
+    maxWaitMinutes: getNumberInput('max-wait-minutes', 60, 0),
+    checkpointPath: core.getInput('checkpoint-path'),
+    dryRun: core.getBooleanInput('dry-run'),
+    failOnError: getFailOnError(),
+    reportPath: core.getInput('report-path'),
+    configPath: core.getInput('config-path'),
+    labelThresholds: getLabelThresholds(),
+    issues: getThreadConfig('issue'),
+    pullRequests: getThreadConfig('pr'),
+  }
+}
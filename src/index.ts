@@ -1,5 +1,4 @@
 import * as core from '@actions/core'
-import { graphql } from '@octokit/graphql'
 import { context, getOctokit } from '@actions/github'
 
 import {
@@ -7,8 +6,46 @@ import {
   RateLimitStatus,
   Thread,
   GraphQLResponse,
+  ActionConfig,
+  ThreadConfig,
+  RunState,
+  LockReason,
+  ThreadSummary,
+  LockedThread,
+  ThreadReport,
+  ReportItem,
+  LockResult,
+  ProcessResult,
+  RepositoryResult,
+  SearchFilter,
+  WaitBudget,
+  RateLimitTracker,
+  GraphQLRateLimit,
+  LockPool,
+  RepositoryCheckpoint,
+  LockRule,
+  RuleMatch,
+  LabelThreshold,
 } from './interfaces'
-import { searchThreadsQuery } from './queries'
+import {
+  searchThreadsQuery,
+  lockLockablesMutation,
+  TIMELINE_ITEMS_LIMIT,
+} from './queries'
+import { withRetry } from './retry'
+import { createLockPool } from './pool'
+import { loadCheckpoints, saveCheckpoints } from './checkpoint'
+import { getInstallationToken } from './auth'
+import { getConfig } from './config'
+import { writeJobSummary } from './summary'
+import { writeReport } from './report'
+import { loadLockRules } from './rules'
+
+/**
+ * Time before the expiry of an installation token that waits must end by,
+ * so the requests after a wait are still authenticated.
+ */
+const TOKEN_EXPIRY_MARGIN = 5 * 60 * 1000
 
 /**
  * Main function to run the action.
@@ -17,76 +54,157 @@ import { searchThreadsQuery } from './queries'
  */
 export async function run(): Promise<void> {
   try {
-    const token = core.getInput('repo-token')
-    const rateLimitBuffer = parseInt(core.getInput('rate-limit-buffer'), 10)
-    const daysInactiveIssues = parseInt(
-      core.getInput('days-inactive-issues'),
-      10,
+    const config = getConfig()
+
+    // Without an API URL, GITHUB_API_URL is used, which the runner sets on GHES
+    const octokitOptions = config.apiUrl ? { baseUrl: config.apiUrl } : {}
+
+    // A GitHub App installation token takes the place of the repo token
+    const installationToken = config.appId
+      ? await getInstallationToken(
+          config.appId,
+          config.appPrivateKey,
+          config.installationId,
+          octokitOptions,
+        )
+      : undefined
+    const octokit = getOctokit(
+      installationToken?.token ?? config.repoToken,
+      octokitOptions,
     )
-    const daysInactivePRs = parseInt(core.getInput('days-inactive-prs'), 10)
-    const lockReasonIssues = core.getInput('lock-reason-issues') as
-      | 'off-topic'
-      | 'too heated'
-      | 'resolved'
-      | 'spam'
-      | undefined
-    const lockReasonPRs = core.getInput('lock-reason-prs') as
-      | 'off-topic'
-      | 'too heated'
-      | 'resolved'
-      | 'spam'
-      | undefined
-
-    const octokit = getOctokit(token)
-    const { owner, repo } = context.repo
 
     core.info('Starting processing of issues and pull requests.')
+    if (config.dryRun) {
+      core.info('Dry-run mode enabled, no issues or PRs will be locked.')
+    }
     core.info('Checking rate limit before processing.')
 
-    const rateLimitStatus = await checkRateLimit(octokit)
-    if (rateLimitStatus.remaining > rateLimitBuffer) {
+    // Kept up to date from API responses, so the rate limit only has to be
+    // requested from the API once
+    const rateLimitTracker: RateLimitTracker = {}
+
+    const state: RunState = {
+      // Shared limit on the number of locks for issues and PRs together
+      lockBudget:
+        config.maxLocksPerRun > 0
+          ? { remaining: config.maxLocksPerRun }
+          : undefined,
+      // Shared by issues and PRs, so the limit holds for the whole run
+      lockPool: createLockPool(config.lockConcurrency),
+      // Total time the run may spend waiting for rate limit resets, and
+      // waits may not outlast the installation token
+      waitBudget: config.waitForReset
+        ? {
+            remainingSeconds: config.maxWaitMinutes * 60,
+            deadline: installationToken
+              ? Date.parse(installationToken.expiresAt) - TOKEN_EXPIRY_MARGIN
+              : undefined,
+          }
+        : undefined,
+      rateLimitTracker,
+      failures: [],
+      report: [],
+    }
+
+    const rateLimitStatus = await checkRateLimit(
+      octokit,
+      'core',
+      rateLimitTracker,
+    )
+    const rateLimitBefore: RateLimitTracker = { ...rateLimitTracker }
+    if (
+      rateLimitStatus.remaining > config.rateLimitBuffer ||
+      (await waitForCoreRateLimitReset(
+        rateLimitStatus,
+        state.waitBudget,
+        rateLimitTracker,
+      ))
+    ) {
       core.info('Sufficient rate limit available, starting processing.')
 
-      // Fetch all relevant issues and PRs
-      const items = await fetchThreads(
-        octokit,
-        owner,
-        repo,
-        token,
-        rateLimitBuffer,
-      )
-      const { issuesList, pullRequestsList } = filterItems(items)
+      const repositories =
+        config.repositories.length > 0
+          ? await resolveRepositories(octokit, config.repositories)
+          : [context.repo]
 
-      // Log the total number of fetched issues and PRs
-      core.info(`Total fetched issues: ${issuesList.length}`)
-      core.info(`Total fetched PRs: ${pullRequestsList.length}`)
+      // Searches cut short in a previous run resume from their checkpoint
+      const checkpoints = config.checkpointPath
+        ? loadCheckpoints(config.checkpointPath)
+        : {}
 
-      // Process issues and PRs in parallel
-      await Promise.all([
-        processIssues(
-          octokit,
-          owner,
-          repo,
-          issuesList,
-          daysInactiveIssues,
-          lockReasonIssues,
-        ),
-        processPullRequests(
+      const repositoryResults: Record<string, RepositoryResult> = {}
+      for (const [index, { owner, repo }] of repositories.entries()) {
+        // The rate limit is shared by all repositories in this run
+        if (index > 0) {
+          const status =
+            rateLimitTracker.core ??
+            (await checkRateLimit(octokit, 'core', rateLimitTracker))
+          if (
+            status.remaining <= config.rateLimitBuffer &&
+            !(await waitForCoreRateLimitReset(
+              status,
+              state.waitBudget,
+              rateLimitTracker,
+            ))
+          ) {
+            core.warning(
+              `Rate limit too low, stopping before ${owner}/${repo}. Please wait until ${status.resetTimeHumanReadable}.`,
+            )
+            break
+          }
+        }
+
+        repositoryResults[`${owner}/${repo}`] = await processRepository(
           octokit,
           owner,
           repo,
-          pullRequestsList,
-          daysInactivePRs,
-          lockReasonPRs,
+          config,
+          state,
+          (checkpoints[`${owner}/${repo}`] ??= {}),
+        )
+        if (config.checkpointPath && !config.dryRun) {
+          saveCheckpoints(config.checkpointPath, checkpoints)
+        }
+      }
+
+      if (repositories.length > 1) {
+        setRepositoryOutputs(repositoryResults)
+      }
+      core.setOutput(
+        'skipped-count',
+        Object.values(repositoryResults).reduce(
+          (total, { issues, pullRequests }) =>
+            total + issues.skipped.length + pullRequests.skipped.length,
+          0,
         ),
-      ])
+      )
+      if (config.reportPath) {
+        writeReport(config.reportPath, state.report ?? [], config.dryRun)
+      }
 
-      // Check rate limit after processing
-      await checkRateLimit(octokit)
+      // Report the rate limit after processing
+      logRateLimit(rateLimitTracker)
+      await writeJobSummary(
+        repositoryResults,
+        state.failures ?? [],
+        rateLimitBefore,
+        rateLimitTracker,
+        config.dryRun,
+      )
       core.info('Processing completed.')
     } else {
       core.warning('Initial rate limit too low, stopping processing.')
     }
+
+    // Failures of single items or searches do not stop the run, the
+    // fail-on-error policy decides whether they fail the job
+    const failures = state.failures ?? []
+    core.setOutput('failed-items', JSON.stringify(failures))
+    if (config.failOnError > 0 && failures.length >= config.failOnError) {
+      core.setFailed(
+        `${failures.length} issues/PRs or searches failed, see the failed-items output.`,
+      )
+    }
   } catch (error) {
     if (error instanceof Error) {
       const errorMessage = (error as Error).message
@@ -95,6 +213,434 @@ export async function run(): Promise<void> {
   }
 }
 
+/**
+ * Fetches and processes the issues and pull requests of a single repository.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param config Configuration of the action.
+ * @param state State shared by everything processed during the run.
+ * @param checkpoint Optional checkpoint of the repository to resume from.
+ * @returns Promise that resolves to the results for the repository.
+ */
+export async function processRepository(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  config: ActionConfig,
+  state: RunState = {},
+  checkpoint?: RepositoryCheckpoint,
+): Promise<RepositoryResult> {
+  core.info(`Processing repository ${owner}/${repo}.`)
+
+  // Lock rules from the config file of the repository replace the inputs
+  try {
+    const rules = await loadLockRules(octokit, owner, repo, config.configPath)
+    if (rules) {
+      config = { ...config, rules }
+    }
+  } catch (error) {
+    const reason = `Failed to load lock rules: ${(error as Error).message}`
+    core.warning(`Skipping ${owner}/${repo}. ${reason}`)
+    state.failures?.push({ repository: `${owner}/${repo}`, reason })
+    const empty = (): ProcessResult => ({
+      locked: [],
+      labeled: [],
+      deferred: [],
+      skipped: [],
+      failed: [],
+    })
+    return { issues: empty(), pullRequests: empty() }
+  }
+
+  // Fetch only the issues and PRs that are inactive long enough, and lock
+  // them page by page while the search results come in. Without a lock rule
+  // for a type, none of its threads can be locked.
+  const fetchPages = (type: Thread['__typename']) =>
+    config.rules && getLockRules(type, config).length === 0
+      ? []
+      : fetchThreadPages(
+          octokit,
+          owner,
+          repo,
+          config,
+          getSearchFilter(type, config),
+          state,
+          checkpoint,
+        )
+  const issuePages = fetchPages('Issue')
+  const pullRequestPages = fetchPages('PullRequest')
+
+  // Process issues and PRs in parallel
+  const [issues, pullRequests] = await Promise.all([
+    processIssues(octokit, owner, repo, issuePages, config, state),
+    processPullRequests(octokit, owner, repo, pullRequestPages, config, state),
+  ])
+  return { issues, pullRequests }
+}
+
+/**
+ * Lists the repositories of an owner, which can be an organization or a
+ * user account.
+ * @param octokit Octokit instance.
+ * @param owner Name of the organization or user.
+ * @returns Promise that resolves to the repositories of the owner.
+ * @throws Error if the repositories of the owner cannot be listed.
+ */
+async function listOwnerRepositories(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+): Promise<{ name: string; archived?: boolean }[]> {
+  try {
+    return await octokit.paginate(octokit.rest.repos.listForOrg, {
+      org: owner,
+      per_page: 100,
+    })
+  } catch (error) {
+    // The organization endpoint does not know user accounts
+    if ((error as { status?: number }).status !== 404) {
+      throw error
+    }
+    core.debug(
+      `${owner} is not an organization, listing its user repositories.`,
+    )
+    return octokit.paginate(octokit.rest.repos.listForUser, {
+      username: owner,
+      type: 'owner',
+      per_page: 100,
+    })
+  }
+}
+
+/**
+ * Resolves the `repositories` input into a list of repositories.
+ * Entries can be an explicit `owner/repo`, an `owner/pattern` glob where `*`
+ * matches any part of the name, or an organization or user name for all of
+ * its repositories. Archived repositories are skipped, as they cannot be
+ * locked.
+ * @param octokit Octokit instance.
+ * @param entries Entries of the repositories input.
+ * @returns Promise that resolves to the list of repositories.
+ * @throws Error if the repositories of an owner cannot be listed.
+ */
+export async function resolveRepositories(
+  octokit: ReturnType<typeof getOctokit>,
+  entries: string[],
+): Promise<{ owner: string; repo: string }[]> {
+  const repositories = new Map<string, { owner: string; repo: string }>()
+
+  for (const entry of entries) {
+    const [owner, pattern = '*'] = entry.split('/')
+    if (!pattern.includes('*')) {
+      repositories.set(`${owner}/${pattern}`.toLowerCase(), {
+        owner,
+        repo: pattern,
+      })
+      continue
+    }
+
+    const matcher = new RegExp(
+      `^${pattern
+        .split('*')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`,
+      'i',
+    )
+    const ownerRepos = await listOwnerRepositories(octokit, owner)
+    for (const ownerRepo of ownerRepos) {
+      if (!ownerRepo.archived && matcher.test(ownerRepo.name)) {
+        repositories.set(`${owner}/${ownerRepo.name}`.toLowerCase(), {
+          owner,
+          repo: ownerRepo.name,
+        })
+      }
+    }
+  }
+
+  core.info(`Resolved ${repositories.size} repositories to process.`)
+  return [...repositories.values()]
+}
+
+/**
+ * Sets the outputs for a run over multiple repositories. The lists and
+ * counts combine all repositories, with the repository added to every item,
+ * and the `repository-results` output holds the breakdown per repository.
+ * @param results Results per repository.
+ */
+function setRepositoryOutputs(results: Record<string, RepositoryResult>) {
+  const combine = (key: keyof ProcessResult, type: keyof RepositoryResult) =>
+    JSON.stringify(
+      Object.entries(results).flatMap(([repository, result]) =>
+        result[type][key].map((item) => ({ repository, ...item })),
+      ),
+    )
+  const count = (key: keyof ProcessResult, type: keyof RepositoryResult) =>
+    Object.values(results).reduce(
+      (total, result) => total + result[type][key].length,
+      0,
+    )
+
+  core.setOutput('locked-issues', combine('locked', 'issues'))
+  core.setOutput('locked-prs', combine('locked', 'pullRequests'))
+  core.setOutput('locked-issues-count', count('locked', 'issues'))
+  core.setOutput('locked-prs-count', count('locked', 'pullRequests'))
+  core.setOutput('labeled-issues', combine('labeled', 'issues'))
+  core.setOutput('labeled-prs', combine('labeled', 'pullRequests'))
+  core.setOutput('deferred-issues', combine('deferred', 'issues'))
+  core.setOutput('deferred-prs', combine('deferred', 'pullRequests'))
+  core.setOutput('repository-results', JSON.stringify(results))
+}
+
+/**
+ * Checks whether a thread passes the label exemption and inclusion rules.
+ * Label names are compared case-insensitively, like GitHub does.
+ * @param thread Thread to check.
+ * @param config Configuration for the type of the thread.
+ * @returns True if the thread may be locked based on its labels.
+ */
+export function matchesLabelRules(
+  thread: Thread,
+  config: Pick<ThreadConfig, 'excludeLabels' | 'includeLabels'>,
+): boolean {
+  const labels = (thread.labels?.nodes ?? []).map((label) =>
+    label.name.toLowerCase(),
+  )
+  const excludeLabels = (config.excludeLabels ?? []).map((label) =>
+    label.toLowerCase(),
+  )
+  const includeLabels = (config.includeLabels ?? []).map((label) =>
+    label.toLowerCase(),
+  )
+
+  if (labels.some((label) => excludeLabels.includes(label))) {
+    return false
+  }
+  if (
+    includeLabels.length > 0 &&
+    !labels.some((label) => includeLabels.includes(label))
+  ) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Checks whether a thread meets all conditions of a lock rule. Labels and
+ * authors are compared case-insensitively, and bot authors match with or
+ * without the `[bot]` suffix.
+ * @param thread Thread to check.
+ * @param match Conditions of the lock rule.
+ * @returns True if the thread matches the rule.
+ */
+export function matchesRule(thread: Thread, match: RuleMatch): boolean {
+  if (match.type && thread.__typename !== match.type) {
+    return false
+  }
+  if (
+    !matchesLabelRules(thread, {
+      includeLabels: match.labels,
+      excludeLabels: match.excludeLabels,
+    })
+  ) {
+    return false
+  }
+  if (match.authors.length > 0) {
+    // GraphQL returns bot logins without the `[bot]` suffix of the REST API
+    const normalize = (login: string) =>
+      login.toLowerCase().replace(/\[bot\]$/, '')
+    const author = normalize(thread.author?.login ?? 'ghost')
+    if (!match.authors.some((login) => normalize(login) === author)) {
+      return false
+    }
+  }
+  switch (match.closedState) {
+    case 'completed':
+      return thread.stateReason === 'COMPLETED'
+    case 'not-planned':
+      return thread.stateReason === 'NOT_PLANNED'
+    case 'duplicate':
+      return thread.stateReason === 'DUPLICATE'
+    case 'merged':
+      return thread.__typename === 'PullRequest' && Boolean(thread.merged)
+    case 'unmerged':
+      return thread.__typename === 'PullRequest' && !thread.merged
+    default:
+      return true
+  }
+}
+
+/**
+ * Finds the label threshold for a thread. When the thread has several
+ * labels with a threshold, the one listed first in the input wins.
+ * @param thread Thread to find the threshold for.
+ * @param config Configuration with the label thresholds.
+ * @returns Label threshold, or undefined if no label of the thread has one.
+ */
+export function findLabelThreshold(
+  thread: Thread,
+  config: Pick<ActionConfig, 'labelThresholds'>,
+): LabelThreshold | undefined {
+  const labels = (thread.labels?.nodes ?? []).map((label) =>
+    label.name.toLowerCase(),
+  )
+  return (config.labelThresholds ?? []).find(({ label }) =>
+    labels.includes(label.toLowerCase()),
+  )
+}
+
+/**
+ * Resolves the configuration to lock a thread with. This is the
+ * configuration for the type of the thread, with the settings of its label
+ * threshold on top. With lock rules, the first rule the thread matches sets
+ * the configuration on top of that.
+ * @param thread Thread to resolve the configuration for.
+ * @param config Configuration of the action.
+ * @returns Configuration for the thread, or undefined if no rule matches.
+ */
+export function resolveThreadConfig(
+  thread: Thread,
+  config: ActionConfig,
+): ThreadConfig | undefined {
+  const threshold = findLabelThreshold(thread, config)
+  if (threshold) {
+    core.debug(
+      `Issue/PR #${thread.number} uses the threshold of label ${threshold.label}.`,
+    )
+  }
+  const typeConfig = {
+    ...config[THREAD_TYPES[thread.__typename].config],
+    ...threshold?.settings,
+  }
+  if (!config.rules) {
+    return typeConfig
+  }
+  const rule = config.rules.find(({ match }) => matchesRule(thread, match))
+  if (!rule) {
+    return undefined
+  }
+  core.debug(`Issue/PR #${thread.number} matches lock rule ${rule.name}.`)
+  // The labels of the rule replace the label rules of the inputs
+  return {
+    ...typeConfig,
+    ...rule.settings,
+    excludeLabels: [],
+    includeLabels: [],
+  }
+}
+
+/**
+ * Returns the lock rules that can match threads of a type.
+ * @param type Type of the threads.
+ * @param config Configuration with the lock rules.
+ * @returns Lock rules for the type, empty without lock rules.
+ */
+function getLockRules(
+  type: Thread['__typename'],
+  config: ActionConfig,
+): LockRule[] {
+  return (config.rules ?? []).filter(
+    ({ match }) => !match.type || match.type === type,
+  )
+}
+
+/**
+ * Renders a comment template by replacing `{key}` placeholders.
+ * Unknown placeholders are left untouched.
+ * @param template Comment template.
+ * @param values Values for the placeholders.
+ * @returns Rendered comment.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string | number>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder,
+  )
+}
+
+/**
+ * Determines the last human activity on a thread from its timeline.
+ * Bots (when ignored) and the ignored actors do not count as activity.
+ * Falls back to the close date if no human activity is found. Only the
+ * latest timeline items are fetched, so when all of them are ignored, older
+ * human activity can be missing and the oldest fetched item is used if it
+ * is after the close date.
+ * @param thread Thread to check.
+ * @param config Configuration with the ignored actors.
+ * @returns Date of the last human activity.
+ */
+export function getLastHumanActivity(
+  thread: Thread,
+  config: ActionConfig,
+): Date {
+  const ignoreActors = (config.ignoreActors ?? []).map((actor) =>
+    actor.toLowerCase(),
+  )
+  const timeline = thread.timelineItems?.nodes ?? []
+  const humanActivity = timeline
+    .filter((item) => {
+      const actor = item.author ?? item.actor
+      if (!actor) return true
+      if (config.ignoreBotActivity && actor.__typename === 'Bot') return false
+      return !ignoreActors.includes(actor.login.toLowerCase())
+    })
+    .map((item) => new Date(item.createdAt).getTime())
+
+  if (humanActivity.length === 0) {
+    const closedAt = new Date(thread.closedAt).getTime()
+    if (timeline.length < TIMELINE_ITEMS_LIMIT) {
+      return new Date(closedAt)
+    }
+    // Never measure from before the oldest fetched item, older items are unknown
+    const oldestItem = Math.min(
+      ...timeline.map((item) => new Date(item.createdAt).getTime()),
+    )
+    return new Date(Math.max(closedAt, oldestItem))
+  }
+  return new Date(Math.max(...humanActivity))
+}
+
+/**
+ * Determines the moment from which the inactivity of a thread is measured.
+ * When bot or actor activity is ignored, the last human activity is used
+ * in place of the last update.
+ * @param thread Thread to check.
+ * @param config Configuration with the inactivity basis.
+ * @returns Date of the last activity according to the basis.
+ */
+export function getInactivityDate(thread: Thread, config: ActionConfig): Date {
+  const lastComment = thread.comments?.nodes[0]?.createdAt
+  switch (config.inactivityBasis ?? 'updated') {
+    case 'closed':
+      return new Date(thread.closedAt)
+    case 'last-comment':
+      return new Date(lastComment ?? thread.closedAt)
+    case 'latest-of':
+      return new Date(
+        Math.max(
+          new Date(thread.closedAt).getTime(),
+          lastComment ? new Date(lastComment).getTime() : 0,
+        ),
+      )
+    default:
+      if (config.ignoreBotActivity || (config.ignoreActors ?? []).length) {
+        return getLastHumanActivity(thread, config)
+      }
+      return new Date(thread.updatedAt)
+  }
+}
+
+/**
+ * Calculates the number of days between two moments.
+ * @param from Earlier moment.
+ * @param to Later moment.
+ * @returns Number of days, including the fraction of a day.
+ */
+function daysBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24)
+}
+
 /**
  * Filters items into issues and pull requests.
  * @param items List of items to filter.
@@ -108,15 +654,69 @@ export function filterItems(items: Thread[]) {
   return { issuesList, pullRequestsList }
 }
 
+/**
+ * Builds the search filter that only matches threads of one type that can
+ * be inactive long enough. The cutoff is only applied to the timestamp it
+ * can never exclude a candidate on: the last update is always the latest
+ * activity, and the `closed` and `latest-of` bases are never before the
+ * close date. The last comment can precede the close date, so it has no
+ * cutoff.
+ * @param type Type of the threads.
+ * @param config Configuration with the inactivity basis and threshold.
+ * @returns Search filter for the threads.
+ */
+export function getSearchFilter(
+  type: Thread['__typename'],
+  config: ActionConfig,
+): SearchFilter {
+  // The search has to include the candidates of every label threshold
+  const labelDays = (config.labelThresholds ?? []).flatMap(
+    ({ settings }) => settings.daysInactive ?? [],
+  )
+  const typeDays = Math.min(
+    config[THREAD_TYPES[type].config].daysInactive,
+    ...labelDays,
+  )
+  // With lock rules, the search has to include the candidates of every rule
+  const ruleDays = getLockRules(type, config).map(
+    ({ settings }) => settings.daysInactive ?? typeDays,
+  )
+  const daysInactive = ruleDays.length > 0 ? Math.min(...ruleDays) : typeDays
+  const cutoff = new Date(Date.now() - daysInactive * 24 * 60 * 60 * 1000)
+  const basis = config.inactivityBasis ?? 'updated'
+
+  if (basis === 'closed' || basis === 'latest-of') {
+    return { type, closedBefore: cutoff }
+  }
+  if (basis === 'last-comment') {
+    return { type }
+  }
+  // Ignored activity can make the last human activity precede the close date
+  if (config.ignoreBotActivity || (config.ignoreActors ?? []).length) {
+    return { type }
+  }
+  return { type, updatedBefore: cutoff }
+}
+
+/**
+ * Maximum number of results GitHub search returns for a single query.
+ */
+const SEARCH_RESULT_LIMIT = 1000
+
+/**
+ * Earliest close date used when slicing the search by date.
+ */
+const SEARCH_START_DATE = new Date('2008-01-01T00:00:00Z')
+
 /**
  * Fetches closed issues and pull requests from a GitHub repository.
  * @param octokit Octokit instance.
  * @param owner Owner of the repository.
  * @param repo Name of the repository.
- * @param token Personal access token for GitHub API.
- * @param rateLimitBuffer Buffer for remaining rate limit checks.
- * @param cursor Optional cursor for fetching next page.
- * @param allItems Array of fetched items.
+ * @param config Configuration with the rate limit buffer.
+ * @param filter Optional filter on the type and dates of the threads.
+ * @param state State with the rate limit status and wait budget.
+ * @param checkpoint Optional checkpoint of the repository to resume from.
  * @returns Promise that resolves to an array of fetched items.
  * @throws Error if fetching fails.
  */
@@ -124,154 +724,1002 @@ export async function fetchThreads(
   octokit: ReturnType<typeof getOctokit>,
   owner: string,
   repo: string,
-  token: string,
-  rateLimitBuffer: number,
-  cursor?: string,
-  allItems: Thread[] = [],
+  config: ActionConfig,
+  filter: SearchFilter = {},
+  state: RunState = {},
+  checkpoint?: RepositoryCheckpoint,
 ): Promise<Thread[]> {
-  core.info(`Fetching issues and PRs${cursor ? ` after ${cursor}` : ''}`)
+  const threads: Thread[] = []
+  for await (const page of fetchThreadPages(
+    octokit,
+    owner,
+    repo,
+    config,
+    filter,
+    state,
+    checkpoint,
+  )) {
+    threads.push(...page)
+  }
+  return threads
+}
+
+/**
+ * Fetches closed issues and pull requests from a GitHub repository, page
+ * by page, so they can be processed as they arrive. Pages are sorted by the
+ * last update, the least recently updated first. When the search has more
+ * results than GitHub search returns, it is sliced into close date windows
+ * until every window fits under the limit, fetched from the oldest window. Fetching stops as soon as the
+ * consumer stops iterating.
+ *
+ * With a checkpoint, a search of one type that was cut short resumes from the
+ * close date window it stopped in. A search that was not split resumes from
+ * the last update of the page it stopped in, as pages are sorted by it. The
+ * checkpoint is cleared once the search completes.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param config Configuration with the rate limit buffer.
+ * @param filter Optional filter on the type and dates of the threads.
+ * @param state State with the rate limit status and wait budget.
+ * @param checkpoint Optional checkpoint of the repository to resume from.
+ * @returns Async iterator over the pages of fetched items.
+ */
+export async function* fetchThreadPages(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  config: ActionConfig,
+  filter: SearchFilter = {},
+  state: RunState = {},
+  checkpoint?: RepositoryCheckpoint,
+): AsyncGenerator<Thread[]> {
+  // Only searches of a single type can be resumed
+  const resumeFrom = filter.type ? checkpoint?.[filter.type] : undefined
+  const updatedAfter = resumeFrom?.updatedAfter
+    ? new Date(resumeFrom.updatedAfter)
+    : undefined
+
+  let queryString = `repo:${owner}/${repo} state:closed is:unlocked`
+  if (filter.type) {
+    queryString += filter.type === 'Issue' ? ' is:issue' : ' is:pr'
+  }
+  // Windows share their boundaries, so threads are de-duplicated by number
+  const progress: SearchProgress = { seen: new Set<number>(), updatedAfter }
+
+  let window: { from: Date; to: Date } | undefined
+  if (resumeFrom?.closedAfter) {
+    window = {
+      from: new Date(resumeFrom.closedAfter),
+      to: filter.closedBefore ?? new Date(),
+    }
+    core.info(
+      `Resuming search of ${owner}/${repo} from threads closed after ${formatSearchDate(window.from)}.`,
+    )
+  } else if (updatedAfter) {
+    core.info(
+      `Resuming search of ${owner}/${repo} from threads updated after ${formatSearchDate(updatedAfter)}.`,
+    )
+  }
 
+  let completed = false
   try {
-    const queryString = `repo:${owner}/${repo} state:closed is:unlocked`
-    const results = await graphql<GraphQLResponse>(searchThreadsQuery, {
+    completed = yield* fetchSearchWindow(
+      octokit,
       queryString,
-      cursor: cursor ?? undefined,
-      headers: {
-        authorization: `token ${token}`,
-      },
-    })
+      config.rateLimitBuffer,
+      progress,
+      state.waitBudget,
+      state.rateLimitTracker ?? {},
+      filter,
+      window,
+    )
+    if (completed) {
+      core.info('All issues and PRs fetched.')
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      const errorMessage = (error as Error).message
+      const reason = `Failed to fetch issues and PRs using GraphQL: ${errorMessage}`
+      core.warning(reason)
+      state.failures?.push({ repository: `${owner}/${repo}`, reason })
+    }
+  } finally {
+    // Also runs when the consumer stops early, like on the lock limit
+    if (checkpoint && filter.type) {
+      if (completed) {
+        delete checkpoint[filter.type]
+      } else if (progress.window) {
+        checkpoint[filter.type] = {
+          closedAfter: progress.window.from.toISOString(),
+        }
+      } else if (progress.updatedAfter) {
+        checkpoint[filter.type] = {
+          updatedAfter: progress.updatedAfter.toISOString(),
+        }
+      } else {
+        delete checkpoint[filter.type]
+      }
+    }
+  }
+}
 
-    const fetchedItems = results.search.nodes
-    allItems.push(...fetchedItems)
+/**
+ * Progress of a search, shared by all of its close date windows.
+ * @property seen Numbers of the threads fetched so far.
+ * @property window Close date window that is being fetched.
+ * @property updatedAfter Last update of the first thread of the last page
+ * handed to the consumer, for a search that was not split. Before the first
+ * page, the last update the search was resumed from.
+ */
+interface SearchProgress {
+  seen: Set<number>
+  window?: { from: Date; to: Date }
+  updatedAfter?: Date
+}
 
-    // Check rate limit before continuing
-    const rateLimitStatus = await checkRateLimit(octokit, 'graphql')
-    if (rateLimitStatus.remaining <= rateLimitBuffer) {
+/**
+ * Fetches all pages of a search, optionally limited to a close date window.
+ * Splits the window in two when it has more results than can be fetched.
+ *
+ * Search cursors are offsets, so threads that are locked or updated while
+ * paging would shift the results and skip candidates. Instead of following
+ * the cursor, the search is started again from the last update of the
+ * previous page, skipping the threads that were already seen.
+ * @param octokit Octokit instance.
+ * @param queryString Search query without the date qualifiers.
+ * @param rateLimitBuffer Buffer for remaining rate limit checks.
+ * @param progress Progress of the search, updated while fetching.
+ * @param waitBudget Optional budget for waiting on rate limit resets.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ * @param filter Search filter with the upper bounds for the dates.
+ * @param window Optional close date window to search in.
+ * @returns Async iterator over the pages, returning false if fetching
+ * stopped early.
+ */
+async function* fetchSearchWindow(
+  octokit: ReturnType<typeof getOctokit>,
+  queryString: string,
+  rateLimitBuffer: number,
+  progress: SearchProgress,
+  waitBudget: WaitBudget | undefined,
+  rateLimitTracker: RateLimitTracker,
+  filter: SearchFilter,
+  window?: { from: Date; to: Date },
+): AsyncGenerator<Thread[], boolean> {
+  const { closedBefore, updatedBefore } = filter
+  let closedQuery = ''
+  if (window) {
+    closedQuery = ` closed:${formatSearchDate(window.from)}..${formatSearchDate(window.to)}`
+  } else if (closedBefore) {
+    closedQuery = ` closed:<${formatSearchDate(closedBefore)}`
+  }
+  let updatedAfter = progress.updatedAfter
+  let cursor: string | undefined
+  let firstRequest = true
+
+  for (;;) {
+    if (window) {
+      progress.window = window
+    }
+    let windowQuery = queryString
+    if (updatedAfter && updatedBefore) {
+      windowQuery += ` updated:${formatSearchDate(updatedAfter)}..${formatSearchDate(updatedBefore)}`
+    } else if (updatedAfter) {
+      windowQuery += ` updated:>=${formatSearchDate(updatedAfter)}`
+    } else if (updatedBefore) {
+      windowQuery += ` updated:<${formatSearchDate(updatedBefore)}`
+    }
+    // Search has no sort on the close date, the last update is the closest
+    windowQuery += ` sort:updated-asc${closedQuery}`
+    core.info(
+      `Fetching issues and PRs${window ? ` closed between ${formatSearchDate(window.from)} and ${formatSearchDate(window.to)}` : ''}${updatedAfter && !firstRequest ? ` updated after ${formatSearchDate(updatedAfter)}` : ''}${cursor ? ` after ${cursor}` : ''}`,
+    )
+    const results = await octokit.graphql<GraphQLResponse>(searchThreadsQuery, {
+      queryString: windowQuery,
+      cursor,
+    })
+    const { issueCount, nodes, pageInfo } = results.search
+    if (results.rateLimit) {
+      trackGraphQLRateLimit(rateLimitTracker, results.rateLimit)
+    }
+
+    if (firstRequest && issueCount > SEARCH_RESULT_LIMIT) {
+      const { from, to } = window ?? {
+        from: SEARCH_START_DATE,
+        to: closedBefore ?? new Date(),
+      }
+      const middle = new Date(
+        Math.floor((from.getTime() + to.getTime()) / 2000) * 1000,
+      )
+      if (middle > from && middle < to) {
+        core.info(
+          `Search has ${issueCount} results, splitting it by close date.`,
+        )
+        if (
+          !(await hasFetchRateLimit(
+            octokit,
+            rateLimitBuffer,
+            waitBudget,
+            rateLimitTracker,
+          ))
+        ) {
+          return false
+        }
+        return (
+          (yield* fetchSearchWindow(
+            octokit,
+            queryString,
+            rateLimitBuffer,
+            progress,
+            waitBudget,
+            rateLimitTracker,
+            filter,
+            { from, to: middle },
+          )) &&
+          (yield* fetchSearchWindow(
+            octokit,
+            queryString,
+            rateLimitBuffer,
+            progress,
+            waitBudget,
+            rateLimitTracker,
+            filter,
+            { from: middle, to },
+          ))
+        )
+      }
       core.warning(
-        `Rate limit exceeded, stopping further fetching. Please wait until ${rateLimitStatus.resetTimeHumanReadable}.`,
+        `Search has ${issueCount} results within a single second, only the first ${SEARCH_RESULT_LIMIT} can be fetched.`,
       )
-      return allItems
     }
 
-    if (results.search.pageInfo.hasNextPage) {
-      const nextCursor = results.search.pageInfo.endCursor as string
-      // Fetch next batch
-      return fetchThreads(
+    const page = nodes.filter((node) => !progress.seen.has(node.number))
+    page.forEach((node) => progress.seen.add(node.number))
+    if (page.length > 0) {
+      // The whole page is fetched again, as the consumer can stop within it
+      if (!window) {
+        progress.updatedAfter = new Date(page[0].updatedAt)
+      }
+      yield page
+    }
+
+    // Check rate limit before continuing
+    if (
+      !(await hasFetchRateLimit(
         octokit,
-        owner,
-        repo,
-        token,
         rateLimitBuffer,
-        nextCursor,
-        allItems,
-      )
-    } else {
-      core.info('All issues and PRs fetched.')
-      return allItems
+        waitBudget,
+        rateLimitTracker,
+      ))
+    ) {
+      return false
     }
-  } catch (error) {
-    if (error instanceof Error) {
-      const errorMessage = (error as Error).message
-      core.setFailed(
-        `Failed to fetch issues and PRs using GraphQL: ${errorMessage}`,
-      )
+    if (!pageInfo.hasNextPage) {
+      return true
+    }
+    firstRequest = false
+    // Only follow the cursor when the whole page was updated at the same
+    // time, as starting again from there would return the same page
+    const lastUpdate = new Date(nodes[nodes.length - 1]?.updatedAt ?? NaN)
+    if (
+      !isNaN(lastUpdate.getTime()) &&
+      (!updatedAfter ||
+        formatSearchDate(lastUpdate) > formatSearchDate(updatedAfter))
+    ) {
+      updatedAfter = lastUpdate
+      cursor = undefined
+    } else {
+      cursor = pageInfo.endCursor as string
     }
-    return allItems
   }
 }
 
 /**
- * Processes a list of issues and locks them if they are inactive.
+ * Checks whether enough GraphQL rate limit is left to continue fetching,
+ * waiting for the reset when the wait budget allows it. The tracked rate
+ * limit is used when available, otherwise it is requested from the API.
+ * @param octokit Octokit instance.
+ * @param rateLimitBuffer Buffer for remaining rate limit checks.
+ * @param waitBudget Optional budget for waiting on rate limit resets.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ * @returns Promise that resolves to true if fetching may continue.
+ */
+async function hasFetchRateLimit(
+  octokit: ReturnType<typeof getOctokit>,
+  rateLimitBuffer: number,
+  waitBudget: WaitBudget | undefined,
+  rateLimitTracker: RateLimitTracker,
+): Promise<boolean> {
+  const rateLimitStatus =
+    rateLimitTracker.graphql ??
+    (await checkRateLimit(octokit, 'graphql', rateLimitTracker))
+  if (rateLimitStatus.remaining > rateLimitBuffer) {
+    return true
+  }
+  if (await waitForRateLimitReset(rateLimitStatus, waitBudget)) {
+    // The tracked status is outdated after the reset
+    delete rateLimitTracker.graphql
+    return true
+  }
+  core.warning(
+    `Rate limit exceeded, stopping further fetching. Please wait until ${rateLimitStatus.resetTimeHumanReadable}.`,
+  )
+  return false
+}
+
+/**
+ * Formats a date for use in a GitHub search qualifier.
+ * @param date Date to format.
+ * @returns Date in the `YYYY-MM-DDTHH:MM:SS+00:00` format.
+ */
+export function formatSearchDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, '+00:00')
+}
+
+/**
+ * Processes a list or stream of issues and locks them if they are inactive.
  * @param octokit Octokit instance.
  * @param owner Owner of the repository.
  * @param repo Name of the repository.
- * @param issuesList List of issues to process.
- * @param daysInactiveIssues Number of days of inactivity to lock an issue.
- * @param lockReasonIssues Reason for locking the issue.
- * @returns Promise that resolves when all issues are processed.
+ * @param issuesList List or async iterator of pages of issues to process.
+ * @param config Configuration of the action.
+ * @param state State shared by everything processed during the run.
+ * @returns Promise that resolves to the locked, labeled and deferred issues.
  * @throws Error if an issue fails to process.
  */
 export async function processIssues(
   octokit: ReturnType<typeof getOctokit>,
   owner: string,
   repo: string,
-  issuesList: Thread[],
-  daysInactiveIssues: number,
-  lockReasonIssues:
-    | 'off-topic'
-    | 'too heated'
-    | 'resolved'
-    | 'spam'
-    | undefined,
-): Promise<void> {
+  issuesList: Thread[] | AsyncIterable<Thread[]>,
+  config: ActionConfig,
+  state: RunState = {},
+): Promise<ProcessResult> {
+  return processThreads(
+    octokit,
+    owner,
+    repo,
+    'Issue',
+    issuesList,
+    config,
+    state,
+  )
+}
+
+/**
+ * Processes a list or stream of pull requests and locks them if they are
+ * inactive.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param pullRequestsList List or async iterator of pages of pull requests
+ * to process.
+ * @param config Configuration of the action.
+ * @param state State shared by everything processed during the run.
+ * @returns Promise that resolves to the locked, labeled and deferred pull requests.
+ * @throws Error if a pull request fails to process.
+ */
+export async function processPullRequests(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  pullRequestsList: Thread[] | AsyncIterable<Thread[]>,
+  config: ActionConfig,
+  state: RunState = {},
+): Promise<ProcessResult> {
+  return processThreads(
+    octokit,
+    owner,
+    repo,
+    'PullRequest',
+    pullRequestsList,
+    config,
+    state,
+  )
+}
+
+/**
+ * Names used in log messages, outputs and the configuration for each type
+ * of thread.
+ */
+const THREAD_TYPES = {
+  Issue: {
+    name: 'Issue',
+    noun: 'issue',
+    plural: 'issues',
+    output: 'issues',
+    config: 'issues',
+  },
+  PullRequest: {
+    name: 'PR',
+    noun: 'PR',
+    plural: 'PRs',
+    output: 'prs',
+    config: 'pullRequests',
+  },
+} as const
+
+/**
+ * Processes the pages of threads of one type as they arrive and locks the
+ * inactive ones, oldest first within each page, until the lock limit is
+ * reached. Pages arrive sorted by the last update, so across pages this is
+ * oldest first for the `updated` basis, and an approximation for the
+ * others. Once the limit is reached, no further pages are requested.
+ * With lock rules, every thread uses the settings of the first rule it
+ * matches, and threads without a matching rule are skipped.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param type Type of the threads.
+ * @param threads List or async iterator of pages of threads to process.
+ * @param config Configuration of the action.
+ * @param state State shared by everything processed during the run.
+ * @returns Promise that resolves to the locked, labeled, deferred, skipped
+ * and failed threads.
+ */
+async function processThreads(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  type: Thread['__typename'],
+  threads: Thread[] | AsyncIterable<Thread[]>,
+  config: ActionConfig,
+  state: RunState,
+): Promise<ProcessResult> {
+  const { name, noun, plural, output } = THREAD_TYPES[type]
+  const typeConfig = config[THREAD_TYPES[type].config]
   const now = new Date()
-  const lockedIssues: { number: number; title: string }[] = []
+  const lockedThreads: LockedThread[] = []
+  const labeledThreads: ThreadSummary[] = []
+  const deferredThreads: ThreadSummary[] = []
+  const skippedThreads: ThreadReport[] = []
+  const failedThreads: ThreadReport[] = []
+  const pages = Array.isArray(threads) ? [threads] : threads
+  // Moment inactivity is measured from for the evaluated threads, by number
+  const inactiveSince = new Map<number, Date>()
+  // Configuration of the rule each candidate matched, by number
+  const threadConfigs = new Map<number, ThreadConfig>()
+  let fetchedCount = 0
+  let selectedCount = 0
+  let limitReached = false
+  let rateLimited = false
+
+  // Describe an evaluated thread, with its inactivity
+  const describe = (thread: Thread): LockedThread => {
+    const since = inactiveSince.get(thread.number) ?? now
+    return {
+      number: thread.number,
+      title: thread.title,
+      html_url: thread.url,
+      type,
+      days_inactive: Math.floor(daysBetween(since, now)),
+      inactive_since: since.toISOString(),
+    }
+  }
+
+  // Add the decision on an evaluated thread to the report
+  const report = (
+    thread: Thread,
+    decision: ReportItem['decision'],
+    reason?: string,
+  ) => {
+    state.report?.push({
+      repository: `${owner}/${repo}`,
+      ...describe(thread),
+      lock_reason:
+        decision === 'locked'
+          ? threadConfigs.get(thread.number)?.lockReason
+          : undefined,
+      decision,
+      reason,
+    })
+  }
+
+  // Add a skipped thread to the lists
+  const recordSkipped = (thread: Thread, reason: string) => {
+    skippedThreads.push({ number: thread.number, title: thread.title, reason })
+    report(thread, 'skipped', reason)
+  }
 
-  for (const issue of issuesList) {
-    const lastUpdated = new Date(issue.updatedAt)
-    const daysDifference =
-      (now.getTime() - lastUpdated.getTime()) / (1000 * 60 * 60 * 24)
+  // Add a locked thread to the lists
+  const recordLocked = (thread: Thread) => {
+    const item: ThreadSummary = { number: thread.number, title: thread.title }
+    const threadConfig = threadConfigs.get(thread.number)!
+    lockedThreads.push({
+      ...describe(thread),
+      lock_reason: threadConfig.lockReason,
+    })
+    if (hasLabelChanges(thread, threadConfig)) {
+      labeledThreads.push(item)
+    }
+    report(thread, 'locked')
+  }
 
-    if (daysDifference > daysInactiveIssues) {
-      await lockItem(octokit, owner, repo, issue.number, lockReasonIssues)
+  // Add the result of a lock to the lists, failed threads are not locked
+  const recordResult = (thread: Thread, result: LockResult) => {
+    const item: ThreadSummary = { number: thread.number, title: thread.title }
+    const reason = result.reason ?? 'Unknown error.'
+    if (result.status === 'locked') {
       core.info(
-        `Locked issue #${issue.number} due to ${daysInactiveIssues} days of inactivity.`,
+        `Locked ${noun} #${thread.number} due to ${threadConfigs.get(thread.number)!.daysInactive} days of inactivity.`,
       )
-      // Add the locked issue to the list
-      lockedIssues.push({ number: issue.number, title: issue.title })
+      recordLocked(thread)
+    } else if (result.status === 'skipped') {
+      recordSkipped(thread, reason)
+    } else if (result.status === 'deferred') {
+      rateLimited = true
+      deferredThreads.push(item)
+      report(thread, 'deferred', reason)
+    } else {
+      core.warning(`Failed to lock ${noun} #${thread.number}: ${reason}`)
+      failedThreads.push({ ...item, reason })
+      state.failures?.push({ repository: `${owner}/${repo}`, ...item, reason })
+      report(thread, 'failed', reason)
+    }
+  }
+
+  for await (const page of pages) {
+    const candidates: { thread: Thread; daysDifference: number }[] = []
+
+    for (const thread of page) {
+      if (thread.__typename !== type) {
+        continue
+      }
+      fetchedCount++
+
+      const lastUpdated = getInactivityDate(thread, config)
+      inactiveSince.set(thread.number, lastUpdated)
+
+      const threadConfig = resolveThreadConfig(thread, config)
+      if (!threadConfig) {
+        core.debug(`${name} #${thread.number} matches no lock rule.`)
+        recordSkipped(thread, 'No lock rule matches.')
+        continue
+      }
+      threadConfigs.set(thread.number, threadConfig)
+
+      if (!matchesLabelRules(thread, threadConfig)) {
+        core.debug(`${name} #${thread.number} skipped due to label rules.`)
+        recordSkipped(thread, 'Excluded by label rules.')
+        continue
+      }
+
+      const daysDifference = daysBetween(lastUpdated, now)
+      if (daysDifference > threadConfig.daysInactive) {
+        candidates.push({ thread, daysDifference })
+      } else {
+        core.debug(
+          `${name} #${thread.number} has only ${daysDifference} days of inactivity.`,
+        )
+        recordSkipped(
+          thread,
+          `Only ${Math.floor(daysDifference)} days of inactivity.`,
+        )
+      }
+    }
+
+    // Lock the longest inactive threads first
+    candidates.sort((a, b) => b.daysDifference - a.daysDifference)
+
+    const selected: Thread[] = []
+    for (const { thread } of candidates) {
+      if (!limitReached && acquireLockSlot(selectedCount, typeConfig, state)) {
+        selected.push(thread)
+        selectedCount++
+      } else {
+        limitReached = true
+        deferredThreads.push({ number: thread.number, title: thread.title })
+        report(thread, 'deferred', 'Lock limit reached.')
+      }
+    }
+
+    if (config.dryRun) {
+      for (const thread of selected) {
+        core.info(
+          `Would lock ${noun} #${thread.number} due to ${threadConfigs.get(thread.number)!.daysInactive} days of inactivity.`,
+        )
+        recordLocked(thread)
+      }
+    } else if (config.lockBatchSize > 0) {
+      // A batch shares one lock reason, so threads are grouped by reason
+      const groups = new Map<string, Thread[]>()
+      for (const thread of selected) {
+        const reason = threadConfigs.get(thread.number)!.lockReason ?? ''
+        groups.set(reason, [...(groups.get(reason) ?? []), thread])
+      }
+      const batches: Thread[][] = []
+      for (const group of groups.values()) {
+        for (let i = 0; i < group.length; i += config.lockBatchSize) {
+          batches.push(group.slice(i, i + config.lockBatchSize))
+        }
+      }
+
+      const batchResults = await runLockTasks(
+        batches.map((batch) => async () => {
+          if (!(await hasLockRateLimit(config, state))) {
+            return new Map(
+              batch.map((thread) => [thread.number, RATE_LIMIT_DEFERRED]),
+            )
+          }
+          // Threads that could not be annotated are left out of the lock
+          const results = new Map<number, LockResult>()
+          const annotated: Thread[] = []
+          for (const thread of batch) {
+            const reason = await tryAnnotateThread(
+              octokit,
+              owner,
+              repo,
+              thread,
+              threadConfigs.get(thread.number)!,
+            )
+            if (reason) {
+              results.set(thread.number, { status: 'failed', reason })
+            } else {
+              annotated.push(thread)
+            }
+          }
+          const locked = await lockItemsBatch(
+            octokit,
+            annotated,
+            threadConfigs.get(batch[0].number)!.lockReason,
+            config.maxRetries,
+          )
+          return new Map([...results, ...locked])
+        }),
+        state.lockPool,
+      )
+
+      // Record the results in the selected order, however the batches finished
+      const results = new Map(batchResults.flatMap((result) => [...result]))
+      for (const thread of selected) {
+        recordResult(thread, results.get(thread.number)!)
+      }
     } else {
-      core.debug(
-        `Issue #${issue.number} has only ${daysDifference} days of inactivity.`,
+      const results = await runLockTasks(
+        selected.map((thread) => async () => {
+          if (!(await hasLockRateLimit(config, state))) {
+            return RATE_LIMIT_DEFERRED
+          }
+          return lockThread(octokit, owner, repo, thread, config, state)
+        }),
+        state.lockPool,
       )
+
+      // Record the results in the selected order, however the locks finished
+      selected.forEach((thread, index) => recordResult(thread, results[index]))
+    }
+
+    // Stop fetching once nothing more can be locked in this run
+    if (limitReached || rateLimited) {
+      break
+    }
+  }
+
+  core.info(`Total fetched ${plural}: ${fetchedCount}`)
+  if (deferredThreads.length > 0) {
+    core.info(
+      `Lock limit reached, ${deferredThreads.length} ${plural} left for the next run.`,
+    )
+  }
+
+  // Set the outputs for the locked threads
+  core.setOutput(`locked-${output}`, JSON.stringify(lockedThreads))
+  core.setOutput(`locked-${output}-count`, lockedThreads.length)
+  core.setOutput(`labeled-${output}`, JSON.stringify(labeledThreads))
+  core.setOutput(`deferred-${output}`, JSON.stringify(deferredThreads))
+
+  return {
+    locked: lockedThreads,
+    labeled: labeledThreads,
+    deferred: deferredThreads,
+    skipped: skippedThreads,
+    failed: failedThreads,
+  }
+}
+
+/**
+ * Result of a lock task that was not run because the rate limit ran out.
+ */
+const RATE_LIMIT_DEFERRED: LockResult = {
+  status: 'deferred',
+  reason: 'Rate limit reached.',
+}
+
+/**
+ * Checks the tracked REST rate limit before a lock task, which is kept up to
+ * date from the lock responses. Below the buffer, the lock tasks share a
+ * single wait for the reset within the wait budget. Once the rate limit
+ * cannot be waited for, the locks stop for the rest of the run.
+ * @param config Configuration with the rate limit buffer.
+ * @param state State with the rate limit status and wait budget.
+ * @returns Promise that resolves to true if the lock task may run.
+ */
+async function hasLockRateLimit(
+  config: ActionConfig,
+  state: RunState,
+): Promise<boolean> {
+  const rateLimitTracker = state.rateLimitTracker ?? {}
+  const status = rateLimitTracker.core
+  if (!state.coreRateLimitWait) {
+    if (!status || status.remaining > config.rateLimitBuffer) {
+      return true
+    }
+    state.coreRateLimitWait = waitForCoreRateLimitReset(
+      status,
+      state.waitBudget,
+      rateLimitTracker,
+    ).then((waited) => {
+      if (waited) {
+        state.coreRateLimitWait = undefined
+      } else {
+        core.warning(
+          `Rate limit too low, leaving the remaining locks for the next run. Please wait until ${status.resetTimeHumanReadable}.`,
+        )
+      }
+      return waited
+    })
+  }
+  return state.coreRateLimitWait
+}
+
+/**
+ * Runs lock tasks through the worker pool, or one after another without one.
+ * @param tasks Lock tasks to run.
+ * @param lockPool Optional worker pool shared by everything that locks.
+ * @returns Promise that resolves to the results, in the order of the tasks.
+ */
+async function runLockTasks<T>(
+  tasks: (() => Promise<T>)[],
+  lockPool?: LockPool,
+): Promise<T[]> {
+  if (lockPool) {
+    return Promise.all(tasks.map((task) => lockPool.run(task)))
+  }
+  const results: T[] = []
+  for (const task of tasks) {
+    results.push(await task())
+  }
+  return results
+}
+
+/**
+ * Claims a slot to lock a thread, within the per type limit and the limit
+ * shared by all types.
+ * @param lockedCount Number of threads of this type locked so far.
+ * @param config Configuration with the limit for the type.
+ * @param state State with the limit shared by all types.
+ * @returns True if the thread may be locked.
+ */
+function acquireLockSlot(
+  lockedCount: number,
+  config: ThreadConfig,
+  state: RunState,
+): boolean {
+  if (config.maxLocks && lockedCount >= config.maxLocks) {
+    return false
+  }
+  if (state.lockBudget) {
+    if (state.lockBudget.remaining <= 0) {
+      return false
     }
+    state.lockBudget.remaining--
   }
+  return true
+}
 
-  // Set the output for locked issues
-  core.setOutput('locked-issues', JSON.stringify(lockedIssues))
+/**
+ * Runs the lock step for a single thread: posts the optional comment,
+ * updates its labels and finally locks the conversation. When the comment
+ * or labels fail, the thread is not locked, so the next run can retry it.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param thread Issue or pull request to lock.
+ * @param config Configuration of the action.
+ * @param state State shared by everything processed during the run.
+ * @returns Promise that resolves to the result of the lock.
+ */
+export async function lockThread(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  thread: Thread,
+  config: ActionConfig,
+  state: RunState = {},
+): Promise<LockResult> {
+  const typeConfig =
+    resolveThreadConfig(thread, config) ??
+    config[THREAD_TYPES[thread.__typename].config]
+  const reason = await tryAnnotateThread(
+    octokit,
+    owner,
+    repo,
+    thread,
+    typeConfig,
+  )
+  if (reason) {
+    return { status: 'failed', reason }
+  }
+  return lockItem(
+    octokit,
+    owner,
+    repo,
+    thread.number,
+    typeConfig.lockReason,
+    config.maxRetries,
+    state.rateLimitTracker,
+  )
 }
 
 /**
- * Processes a list of pull requests and locks them if they are inactive.
+ * Prepares a thread for locking: posts the optional comment and updates
+ * its labels.
  * @param octokit Octokit instance.
  * @param owner Owner of the repository.
  * @param repo Name of the repository.
- * @param pullRequestsList List of pull requests to process.
- * @param daysInactivePRs Number of days of inactivity to lock a pull request.
- * @param lockReasonPRs Reason for locking the pull request.
- * @returns Promise that resolves when all pull requests are processed.
- * @throws Error if a pull request fails to process.
+ * @param thread Issue or pull request to lock.
+ * @param config Configuration for the type of the thread.
+ * @returns Promise that resolves when the thread is prepared.
  */
-export async function processPullRequests(
+async function annotateThread(
   octokit: ReturnType<typeof getOctokit>,
   owner: string,
   repo: string,
-  pullRequestsList: Thread[],
-  daysInactivePRs: number,
-  lockReasonPRs: 'off-topic' | 'too heated' | 'resolved' | 'spam' | undefined,
+  thread: Thread,
+  config: ThreadConfig,
 ): Promise<void> {
-  const now = new Date()
-  const lockedPRs: { number: number; title: string }[] = []
+  // The comment goes up first, so it can still be read once locked
+  if (config.comment) {
+    await commentItem(
+      octokit,
+      owner,
+      repo,
+      thread.number,
+      renderTemplate(config.comment, {
+        days: config.daysInactive,
+        reason: config.lockReason ?? '',
+        number: thread.number,
+        author: thread.author?.login ?? 'ghost',
+      }),
+    )
+  }
+  if (hasLabelChanges(thread, config)) {
+    await labelItem(
+      octokit,
+      owner,
+      repo,
+      thread.number,
+      config.addLabels ?? [],
+      presentLabels(thread, config.removeLabels ?? []),
+    )
+  }
+}
+
+/**
+ * Prepares a thread for locking, and catches a failure to do so.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param thread Issue or pull request to lock.
+ * @param config Configuration for the type of the thread.
+ * @returns Promise that resolves to the reason of the failure, if any.
+ */
+async function tryAnnotateThread(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  thread: Thread,
+  config: ThreadConfig,
+): Promise<string | undefined> {
+  try {
+    await annotateThread(octokit, owner, repo, thread, config)
+  } catch (error) {
+    return error instanceof Error ? error.message : `${error}`
+  }
+  return undefined
+}
 
-  for (const pr of pullRequestsList) {
-    const lastUpdated = new Date(pr.updatedAt)
-    const daysDifference =
-      (now.getTime() - lastUpdated.getTime()) / (1000 * 60 * 60 * 24)
+/**
+ * Returns the labels from a list that are present on a thread.
+ * @param thread Thread to check.
+ * @param labels Labels to look for.
+ * @returns Names of the labels as they appear on the thread.
+ */
+function presentLabels(thread: Thread, labels: string[]): string[] {
+  const wanted = labels.map((label) => label.toLowerCase())
+  return (thread.labels?.nodes ?? [])
+    .map((label) => label.name)
+    .filter((name) => wanted.includes(name.toLowerCase()))
+}
 
-    if (daysDifference > daysInactivePRs) {
-      await lockItem(octokit, owner, repo, pr.number, lockReasonPRs)
-      core.info(
-        `Locked PR #${pr.number} due to ${daysInactivePRs} days of inactivity.`,
-      )
-      // Add the locked PR to the list
-      lockedPRs.push({ number: pr.number, title: pr.title })
-    } else {
-      core.debug(
-        `PR #${pr.number} has only ${daysDifference} days of inactivity.`,
-      )
+/**
+ * Checks whether locking a thread will add or remove any labels.
+ * @param thread Thread to check.
+ * @param config Configuration for the type of the thread.
+ * @returns True if labels will be added or removed.
+ */
+export function hasLabelChanges(thread: Thread, config: ThreadConfig): boolean {
+  return (
+    (config.addLabels ?? []).length > 0 ||
+    presentLabels(thread, config.removeLabels ?? []).length > 0
+  )
+}
+
+/**
+ * Adds and removes labels on an issue or pull request on a GitHub repository.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param itemNumber Number of the issue or pull request.
+ * @param addLabels Labels to add.
+ * @param removeLabels Labels to remove.
+ * @returns Promise that resolves when the labels are updated.
+ * @throws Error if the labels fail to update.
+ */
+export async function labelItem(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  itemNumber: number,
+  addLabels: string[],
+  removeLabels: string[],
+): Promise<void> {
+  try {
+    if (addLabels.length > 0) {
+      await octokit.rest.issues.addLabels({
+        owner,
+        repo,
+        issue_number: itemNumber,
+        labels: addLabels,
+      })
+    }
+    for (const name of removeLabels) {
+      await octokit.rest.issues.removeLabel({
+        owner,
+        repo,
+        issue_number: itemNumber,
+        name,
+      })
     }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : `${error}`
+    throw new Error(
+      `Failed to update labels on issue/PR #${itemNumber}: ${errorMessage}`,
+    )
+  }
+}
+
+/**
+ * Posts a comment on an issue or pull request on a GitHub repository.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param itemNumber Number of the issue or pull request.
+ * @param body Body of the comment.
+ * @returns Promise that resolves when the comment is posted.
+ * @throws Error if the comment fails to post.
+ */
+export async function commentItem(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  itemNumber: number,
+  body: string,
+): Promise<void> {
+  try {
+    await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: itemNumber,
+      body,
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : `${error}`
+    throw new Error(
+      `Failed to comment on issue/PR #${itemNumber}: ${errorMessage}`,
+    )
   }
-  // Set the output for locked PRs
-  core.setOutput('locked-prs', JSON.stringify(lockedPRs))
 }
 
 /**
@@ -281,16 +1729,20 @@ export async function processPullRequests(
  * @param repo Name of the repository.
  * @param itemNumber Number of the issue or pull request.
  * @param lockReason Reason for locking the issue or pull request.
- * @returns Promise that resolves when the item is locked.
- * @throws Error if the item fails to lock.
+ * @param maxRetries Maximum number of retries for transient errors.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ * @returns Promise that resolves to the result of the lock. Items that are
+ * already locked are skipped.
  */
 export async function lockItem(
   octokit: ReturnType<typeof getOctokit>,
   owner: string,
   repo: string,
   itemNumber: number,
-  lockReason: 'off-topic' | 'too heated' | 'resolved' | 'spam' | undefined,
-): Promise<void> {
+  lockReason: LockReason | undefined,
+  maxRetries = 0,
+  rateLimitTracker?: RateLimitTracker,
+): Promise<LockResult> {
   // Construct parameters for the lock request
   const lockParams: any = {
     owner,
@@ -302,24 +1754,243 @@ export async function lockItem(
   }
 
   try {
-    // Lock the issue or PR
-    await octokit.rest.issues.lock(lockParams)
+    // Lock the issue or PR, retrying secondary rate limits and server errors
+    const response = await withRetry(
+      () => octokit.rest.issues.lock(lockParams),
+      `locking issue/PR #${itemNumber}`,
+      maxRetries,
+    )
+    if (rateLimitTracker && response?.headers) {
+      trackRestRateLimit(rateLimitTracker, response.headers)
+    }
+    return { status: 'locked' }
   } catch (error) {
-    if (error instanceof Error) {
-      const errorMessage = (error as Error).message
-      core.setFailed(`Failed to lock issue/PR #${itemNumber}: ${errorMessage}`)
+    const errorMessage = error instanceof Error ? error.message : `${error}`
+    if (/already locked/i.test(errorMessage)) {
+      core.info(`Issue/PR #${itemNumber} is already locked.`)
+      return { status: 'skipped', reason: 'Already locked.' }
     }
+    return { status: 'failed', reason: errorMessage }
+  }
+}
+
+/**
+ * Locks a batch of issues and pull requests with a single GraphQL request,
+ * using an aliased `lockLockable` mutation per item.
+ * @param octokit Octokit instance.
+ * @param threads Issues and pull requests to lock.
+ * @param lockReason Reason for locking the issues and pull requests.
+ * @param maxRetries Maximum number of retries for transient errors.
+ * @returns Promise that resolves to the result of the lock per item.
+ */
+export async function lockItemsBatch(
+  octokit: ReturnType<typeof getOctokit>,
+  threads: Thread[],
+  lockReason: LockReason | undefined,
+  maxRetries = 0,
+): Promise<Map<number, LockResult>> {
+  const results = new Map<number, LockResult>()
+  const lockable = threads.filter((thread) => {
+    if (!thread.id) {
+      results.set(thread.number, {
+        status: 'failed',
+        reason: 'Missing node ID.',
+      })
+    }
+    return Boolean(thread.id)
+  })
+  if (lockable.length === 0) {
+    return results
+  }
+  const variables: Record<string, unknown> = {
+    lockReason: lockReason
+      ? lockReason.toUpperCase().replace(/[- ]/g, '_')
+      : null,
+  }
+  lockable.forEach((thread, index) => {
+    variables[`id${index}`] = thread.id
+  })
+
+  try {
+    await withRetry(
+      () => octokit.graphql(lockLockablesMutation(lockable.length), variables),
+      `locking ${lockable.length} issues/PRs`,
+      maxRetries,
+    )
+    lockable.forEach((thread) =>
+      results.set(thread.number, { status: 'locked' }),
+    )
+  } catch (error) {
+    const { errors, data } = error as {
+      errors?: { message: string; path?: (string | number)[] }[]
+      data?: Record<string, { lockedRecord?: { locked?: boolean } } | null>
+    }
+    const errorMessage = error instanceof Error ? error.message : `${error}`
+    // Errors without an alias path (such as RATE_LIMITED) apply to the whole
+    // batch, so only the aliases confirmed in the data count as locked
+    const batchError = errors?.find(({ path }) => !path?.length)
+    lockable.forEach((thread, index) => {
+      const alias = `lock${index}`
+      const aliasError = errors?.find(({ path }) => path?.[0] === alias)
+      if (data?.[alias]?.lockedRecord?.locked) {
+        results.set(thread.number, { status: 'locked' })
+      } else if (aliasError && /already locked/i.test(aliasError.message)) {
+        results.set(thread.number, {
+          status: 'skipped',
+          reason: 'Already locked.',
+        })
+      } else {
+        results.set(thread.number, {
+          status: 'failed',
+          reason: (aliasError ?? batchError)?.message ?? errorMessage,
+        })
+      }
+    })
+  }
+  return results
+}
+
+/**
+ * Waits until the rate limit resets, if the reset falls within the
+ * remaining wait budget. The waited time is taken from the budget.
+ * @param rateLimitStatus Rate limit status with the time until the reset.
+ * @param waitBudget Optional budget for waiting on rate limit resets.
+ * @returns Promise that resolves to true if the reset was waited for.
+ */
+export async function waitForRateLimitReset(
+  rateLimitStatus: RateLimitStatus,
+  waitBudget?: WaitBudget,
+): Promise<boolean> {
+  if (!waitBudget) {
+    return false
+  }
+
+  // Wait one extra second, so the reset has surely passed
+  const now = Math.floor(Date.now() / 1000)
+  const waitSeconds = Math.max(rateLimitStatus.resetAt - now, 0) + 1
+  if (waitSeconds > waitBudget.remainingSeconds) {
+    core.warning(
+      `Rate limit resets at ${rateLimitStatus.resetTimeHumanReadable}, which is beyond the remaining wait time of ${waitBudget.remainingSeconds} seconds.`,
+    )
+    return false
+  }
+  if (
+    waitBudget.deadline !== undefined &&
+    Date.now() + waitSeconds * 1000 > waitBudget.deadline
+  ) {
+    core.warning(
+      `Rate limit resets at ${rateLimitStatus.resetTimeHumanReadable}, which is after the GitHub App token expires.`,
+    )
+    return false
+  }
+
+  core.info(
+    `Rate limit reached, waiting ${waitSeconds} seconds until ${rateLimitStatus.resetTimeHumanReadable}.`,
+  )
+  waitBudget.remainingSeconds -= waitSeconds
+  await new Promise((resolve) => setTimeout(resolve, waitSeconds * 1000))
+  return true
+}
+
+/**
+ * Waits until the REST rate limit resets, like waitForRateLimitReset, and
+ * clears the tracked status that is outdated after the reset.
+ * @param rateLimitStatus Rate limit status with the time of the reset.
+ * @param waitBudget Optional budget for waiting on rate limit resets.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ * @returns Promise that resolves to true if the reset was waited for.
+ */
+async function waitForCoreRateLimitReset(
+  rateLimitStatus: RateLimitStatus,
+  waitBudget: WaitBudget | undefined,
+  rateLimitTracker: RateLimitTracker,
+): Promise<boolean> {
+  if (!(await waitForRateLimitReset(rateLimitStatus, waitBudget))) {
+    return false
+  }
+  delete rateLimitTracker.core
+  return true
+}
+
+/**
+ * Updates the tracked GraphQL rate limit from the `rateLimit` field of a
+ * GraphQL response.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ * @param rateLimit Rate limit field of the GraphQL response.
+ */
+export function trackGraphQLRateLimit(
+  rateLimitTracker: RateLimitTracker,
+  rateLimit: GraphQLRateLimit,
+): void {
+  const reset = Math.floor(new Date(rateLimit.resetAt).getTime() / 1000)
+  rateLimitTracker.graphql = toRateLimitStatus(rateLimit.remaining, reset)
+  core.debug(
+    `Rate limit graphql - cost: ${rateLimit.cost}, remaining: ${rateLimit.remaining}`,
+  )
+}
+
+/**
+ * Updates the tracked REST rate limit from the `x-ratelimit-*` headers of a
+ * REST response.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ * @param headers Headers of the REST response.
+ */
+export function trackRestRateLimit(
+  rateLimitTracker: RateLimitTracker,
+  headers: Record<string, string | number | undefined>,
+): void {
+  const remaining = headers['x-ratelimit-remaining']
+  const reset = headers['x-ratelimit-reset']
+  const resource = headers['x-ratelimit-resource'] ?? 'core'
+  if (remaining === undefined || reset === undefined || resource !== 'core') {
+    return
+  }
+  rateLimitTracker.core = toRateLimitStatus(Number(remaining), Number(reset))
+}
+
+/**
+ * Logs the tracked rate limit status.
+ * @param rateLimitTracker Rate limit status tracked from API responses.
+ */
+export function logRateLimit(rateLimitTracker: RateLimitTracker): void {
+  for (const apiType of ['core', 'graphql'] as const) {
+    const status = rateLimitTracker[apiType]
+    if (status) {
+      core.info(`Rate limit ${apiType} - remaining: ${status.remaining}`)
+      core.info(
+        `Rate limit ${apiType} - resets at: ${status.resetTimeHumanReadable}`,
+      )
+    }
+  }
+}
+
+/**
+ * Creates a rate limit status object.
+ * @param remaining Number of requests remaining.
+ * @param reset Time when the rate limit resets, in epoch seconds.
+ * @returns RateLimitStatus object.
+ */
+function toRateLimitStatus(remaining: number, reset: number): RateLimitStatus {
+  return {
+    remaining,
+    resetAt: reset,
+    resetTimeHumanReadable: new Date(reset * 1000).toUTCString(),
   }
 }
 
 /**
  * Checks the current rate limit status of GitHub API.
  * @param octokit Octokit instance.
+ * @param apiType Type of the API to check the rate limit of.
+ * @param rateLimitTracker Optional tracker to store the status of every API
+ * in the response in.
  * @returns Promise that resolves to a RateLimitStatus object.
+ * @throws Error if the rate limit cannot be checked.
  */
 export async function checkRateLimit(
   octokit: ReturnType<typeof getOctokit>,
   apiType: keyof RateLimitData = 'core',
+  rateLimitTracker?: RateLimitTracker,
 ): Promise<RateLimitStatus> {
   try {
     // Fetch rate limit data for REST API
@@ -331,22 +2002,29 @@ export async function checkRateLimit(
       throw new Error(`Rate limit data for '${apiType}' not found.`)
     }
 
-    let { remaining, reset } = rateLimitData[apiType]
+    // The response has the status of every API, so all of them are tracked
+    if (rateLimitTracker) {
+      for (const type of ['core', 'graphql'] as const) {
+        if (rateLimitData[type]) {
+          const { remaining, reset } = rateLimitData[type]
+          rateLimitTracker[type] = toRateLimitStatus(remaining, reset)
+        }
+      }
+    }
 
-    const now = Math.floor(Date.now() / 1000)
-    const resetTimeInSeconds = reset - now
-    const resetTimeHumanReadable = new Date(reset * 1000).toUTCString()
+    const { remaining, reset } = rateLimitData[apiType]
+    const status =
+      rateLimitTracker?.[apiType] ?? toRateLimitStatus(remaining, reset)
 
     core.info(`Rate limit ${apiType} - remaining: ${remaining}`)
-    core.info(`Rate limit ${apiType} - resets at: ${resetTimeHumanReadable}`)
+    core.info(
+      `Rate limit ${apiType} - resets at: ${status.resetTimeHumanReadable}`,
+    )
 
-    return { remaining, resetTime: resetTimeInSeconds, resetTimeHumanReadable }
+    return status
   } catch (error) {
-    if (error instanceof Error) {
-      const errorMessage = (error as Error).message
-      core.setFailed(`Failed to check rate limit: ${errorMessage}`)
-    }
-    return { remaining: 0, resetTime: 0, resetTimeHumanReadable: '' }
+    const errorMessage = error instanceof Error ? error.message : `${error}`
+    throw new Error(`Failed to check rate limit: ${errorMessage}`)
   }
 }
 
@@ -1,41 +1,142 @@
 /**
  * Rate limit status object.
  * @property remaining Number of requests remaining.
- * @property resetTime Time when the rate limit resets.
+ * @property resetAt Time when the rate limit resets, in epoch seconds.
  * @property resetTimeHumanReadable Human-readable time when the rate limit resets.
  */
 export interface RateLimitStatus {
   remaining: number
-  resetTime: number
+  resetAt: number
   resetTimeHumanReadable: string
 }
 
+/**
+ * Wait budget object, shared by everything that waits during a run.
+ * @property remainingSeconds Seconds that may still be spent waiting.
+ * @property deadline Optional time in milliseconds that waits must end by,
+ * like the expiry of a GitHub App installation token.
+ */
+export interface WaitBudget {
+  remainingSeconds: number
+  deadline?: number
+}
+
+/**
+ * GitHub App installation access token.
+ * @property token Installation access token.
+ * @property expiresAt Time when the token expires, as an ISO 8601 string.
+ */
+export interface InstallationToken {
+  token: string
+  expiresAt: string
+}
+
 /**
  * Thread object.
+ * @property id Thread node ID.
  * @property number Thread number.
  * @property title Thread title.
+ * @property url Thread URL.
+ * @property author Thread author.
  * @property updatedAt Thread updated at.
  * @property closedAt Thread closed at.
+ * @property stateReason Reason an issue was closed.
+ * @property merged Whether a pull request was merged.
  * @property locked Thread locked.
- * @property pull_request Thread pull request.
+ * @property labels Thread labels.
+ * @property comments Last comment on the thread.
+ * @property timelineItems Most recent timeline activity on the thread.
  */
 export interface Thread {
   __typename: 'Issue' | 'PullRequest'
+  id?: string
   number: number
   title: string
+  url?: string
+  author?: { login: string } | null
   updatedAt: string
   closedAt: string
+  stateReason?: 'COMPLETED' | 'NOT_PLANNED' | 'DUPLICATE' | 'REOPENED' | null
+  merged?: boolean
   locked: boolean
+  labels?: {
+    nodes: { name: string }[]
+  }
+  comments?: {
+    nodes: { createdAt: string }[]
+  }
+  timelineItems?: {
+    nodes: TimelineItem[]
+  }
+}
+
+/**
+ * Actor object.
+ * @property __typename Type of the actor, e.g. `User` or `Bot`.
+ * @property login Login of the actor.
+ */
+export interface Actor {
+  __typename: string
+  login: string
+}
+
+/**
+ * Timeline item object.
+ * Comments and reviews have an author, events have an actor.
+ * @property createdAt Timeline item created at.
+ * @property author Author of a comment or review.
+ * @property actor Actor of an event.
+ */
+export interface TimelineItem {
+  createdAt: string
+  author?: Actor | null
+  actor?: Actor | null
+}
+
+/**
+ * Timestamp used to measure the inactivity of a thread.
+ * - `updated`: last update of the thread.
+ * - `closed`: moment the thread was closed.
+ * - `last-comment`: last comment, or the close date without comments.
+ * - `latest-of`: latest of the close date and the last comment.
+ */
+export type InactivityBasis =
+  'updated' | 'closed' | 'last-comment' | 'latest-of'
+
+/**
+ * GraphQL rate limit object.
+ * @property remaining Number of points remaining.
+ * @property resetAt Time when the rate limit resets.
+ * @property cost Number of points the query cost.
+ */
+export interface GraphQLRateLimit {
+  remaining: number
+  resetAt: string
+  cost: number
+}
+
+/**
+ * Rate limit tracker object, kept up to date from API responses.
+ * @property core Last known REST rate limit status.
+ * @property graphql Last known GraphQL rate limit status.
+ */
+export interface RateLimitTracker {
+  core?: RateLimitStatus
+  graphql?: RateLimitStatus
 }
 
 /**
  * GraphQL response object.
+ * @property rateLimit Rate limit after the query.
  * @property search Search object.
+ * @property search.issueCount Total number of results of the search.
  * @property search.pageInfo Page information object.
  * @property search.nodes Thread nodes.
  */
 export interface GraphQLResponse {
+  rateLimit?: GraphQLRateLimit
   search: {
+    issueCount: number
     pageInfo: {
       hasNextPage: boolean
       endCursor: string | null
@@ -44,6 +145,18 @@ export interface GraphQLResponse {
   }
 }
 
+/**
+ * Search filter object, narrowing the search to the candidates for locking.
+ * @property type Only search threads of this type.
+ * @property updatedBefore Only search threads last updated before this date.
+ * @property closedBefore Only search threads closed before this date.
+ */
+export interface SearchFilter {
+  type?: Thread['__typename']
+  updatedBefore?: Date
+  closedBefore?: Date
+}
+
 /**
  * Rate limit data object.
  * @property core Core rate limit data.
@@ -63,3 +176,302 @@ export interface RateLimitData {
     used: number
   }
 }
+
+/**
+ * Reason to lock a thread with, as accepted by the GitHub API.
+ */
+export type LockReason = 'off-topic' | 'too heated' | 'resolved' | 'spam'
+
+/**
+ * Configuration for one type of thread.
+ * @property daysInactive Number of days of inactivity to lock a thread.
+ * @property lockReason Reason for locking the thread, none if undefined.
+ * @property excludeLabels Labels that exempt a thread from being locked.
+ * @property includeLabels Labels of which a thread needs at least one to be locked.
+ * @property comment Comment template to post before locking a thread.
+ * @property addLabels Labels to add to a thread when it is locked.
+ * @property removeLabels Labels to remove from a thread when it is locked.
+ * @property maxLocks Maximum number of threads of this type to lock, 0 for no limit.
+ */
+export interface ThreadConfig {
+  daysInactive: number
+  lockReason?: LockReason
+  excludeLabels: string[]
+  includeLabels: string[]
+  comment: string
+  addLabels: string[]
+  removeLabels: string[]
+  maxLocks: number
+}
+
+/**
+ * State a thread was closed in.
+ * - `completed`, `not-planned`, `duplicate`: reason an issue was closed.
+ * - `merged`, `unmerged`: whether a pull request was merged.
+ */
+export type ClosedState =
+  'completed' | 'not-planned' | 'duplicate' | 'merged' | 'unmerged'
+
+/**
+ * Conditions of a lock rule. A thread matches when it meets all of them.
+ * @property type Only match threads of this type.
+ * @property labels Only match threads with at least one of these labels.
+ * @property excludeLabels Do not match threads with any of these labels.
+ * @property authors Only match threads by one of these authors.
+ * @property closedState Only match threads closed in this state.
+ */
+export interface RuleMatch {
+  type?: Thread['__typename']
+  labels: string[]
+  excludeLabels: string[]
+  authors: string[]
+  closedState?: ClosedState
+}
+
+/**
+ * Lock rule from the repository config file. Settings that the rule does
+ * not set are taken from the inputs for the type of the thread.
+ * @property name Name of the rule, used in logs.
+ * @property match Conditions a thread has to meet.
+ * @property settings Settings for the threads that match.
+ */
+export interface LockRule {
+  name: string
+  match: RuleMatch
+  settings: Partial<
+    Pick<
+      ThreadConfig,
+      'daysInactive' | 'lockReason' | 'comment' | 'addLabels' | 'removeLabels'
+    >
+  >
+}
+
+/**
+ * Inactivity threshold and lock reason for threads with a label.
+ * @property label Name of the label.
+ * @property settings Settings for threads with the label, on top of the
+ * configuration for their type.
+ */
+export interface LabelThreshold {
+  label: string
+  settings: Partial<Pick<ThreadConfig, 'daysInactive' | 'lockReason'>>
+}
+
+/**
+ * Configuration of the action, parsed and validated from its inputs.
+ * @property repoToken Token for the GitHub API.
+ * @property appId ID of the GitHub App to authenticate as, if any.
+ * @property appPrivateKey Private key of the GitHub App.
+ * @property installationId ID of the GitHub App installation, if given.
+ * @property apiUrl Base URL of the GitHub API, empty for the default.
+ * @property rateLimitBuffer Buffer for remaining rate limit checks.
+ * @property repositories Entries of the repositories to process.
+ * @property inactivityBasis Timestamp used to measure inactivity.
+ * @property ignoreBotActivity Ignore activity of bots when measuring inactivity.
+ * @property ignoreActors Actors whose activity is ignored when measuring inactivity.
+ * @property maxLocksPerRun Maximum number of threads to lock in total, 0 for no limit.
+ * @property maxRetries Maximum number of retries for transient lock errors.
+ * @property lockBatchSize Number of threads to lock per GraphQL request, 0 to lock one by one.
+ * @property lockConcurrency Maximum number of locks running at once.
+ * @property waitForReset Wait for the rate limit to reset instead of stopping.
+ * @property maxWaitMinutes Maximum number of minutes to wait for resets in total.
+ * @property checkpointPath Path of the checkpoint file, empty to not resume.
+ * @property dryRun Only report what would be locked, without locking.
+ * @property failOnError Number of failures that fails the job, 0 to never fail.
+ * @property reportPath Path of the JSON report file, empty to not write one.
+ * @property configPath Path of the config file in the repository, empty for
+ * the default.
+ * @property labelThresholds Thresholds per label, in order of precedence.
+ * @property rules Lock rules from the config file of the repository that is
+ * processed, replacing the configuration per type.
+ * @property issues Configuration for issues.
+ * @property pullRequests Configuration for pull requests.
+ */
+export interface ActionConfig {
+  repoToken: string
+  appId: string
+  appPrivateKey: string
+  installationId?: number
+  apiUrl: string
+  rateLimitBuffer: number
+  repositories: string[]
+  inactivityBasis: InactivityBasis
+  ignoreBotActivity: boolean
+  ignoreActors: string[]
+  maxLocksPerRun: number
+  maxRetries: number
+  lockBatchSize: number
+  lockConcurrency: number
+  waitForReset: boolean
+  maxWaitMinutes: number
+  checkpointPath: string
+  dryRun: boolean
+  failOnError: number
+  reportPath: string
+  configPath: string
+  labelThresholds: LabelThreshold[]
+  rules?: LockRule[]
+  issues: ThreadConfig
+  pullRequests: ThreadConfig
+}
+
+/**
+ * State shared by everything that is processed during a run.
+ * @property lockBudget Lock limit shared by issues and pull requests.
+ * @property lockPool Worker pool shared by everything that locks.
+ * @property waitBudget Budget for waiting on rate limit resets.
+ * @property rateLimitTracker Rate limit status tracked from API responses.
+ * @property coreRateLimitWait Wait for the REST rate limit reset that lock
+ * tasks share, resolving to false when the locks have to stop.
+ * @property failures Failures collected from all repositories.
+ * @property report Decisions on all evaluated threads, for the report file.
+ */
+export interface RunState {
+  lockBudget?: LockBudget
+  lockPool?: LockPool
+  waitBudget?: WaitBudget
+  rateLimitTracker?: RateLimitTracker
+  coreRateLimitWait?: Promise<boolean>
+  failures?: FailedItem[]
+  report?: ReportItem[]
+}
+
+/**
+ * Lock budget object, shared by everything that locks during a run.
+ * @property remaining Number of locks that may still be placed.
+ */
+export interface LockBudget {
+  remaining: number
+}
+
+/**
+ * Worker pool that bounds the number of lock tasks running at once.
+ * @property run Runs a task as soon as a worker is free, in the order the
+ * tasks were added.
+ */
+export interface LockPool {
+  run<T>(task: () => Promise<T>): Promise<T>
+}
+
+/**
+ * Thread summary object, as reported in the outputs.
+ * @property number Thread number.
+ * @property title Thread title.
+ */
+export interface ThreadSummary {
+  number: number
+  title: string
+}
+
+/**
+ * Thread summary object of a locked thread, as reported in the outputs.
+ * The keys follow the GitHub REST API, like `html_url`.
+ * @property html_url Thread URL.
+ * @property type Type of the thread.
+ * @property days_inactive Number of whole days the thread was inactive.
+ * @property inactive_since Moment inactivity is measured from, based on the
+ * inactivity basis.
+ * @property lock_reason Reason the thread was locked with.
+ */
+export interface LockedThread extends ThreadSummary {
+  html_url?: string
+  type: Thread['__typename']
+  days_inactive: number
+  inactive_since: string
+  lock_reason?: LockReason
+}
+
+/**
+ * Report item object of an evaluated thread, as written to the report file.
+ * @property repository Repository in `owner/repo` form.
+ * @property decision Whether the thread was locked, skipped, failed or
+ * deferred to the next run.
+ * @property reason Reason the thread was not locked.
+ */
+export interface ReportItem extends LockedThread {
+  repository: string
+  decision: 'locked' | 'skipped' | 'failed' | 'deferred'
+  reason?: string
+}
+
+/**
+ * Thread summary object with the reason it was skipped or failed.
+ * @property reason Reason the thread was skipped or failed.
+ */
+export interface ThreadReport extends ThreadSummary {
+  reason: string
+}
+
+/**
+ * Failure object, as reported in the `failed-items` output. Failures that
+ * are not about a single thread, like a failed search, have no number.
+ * @property repository Repository in `owner/repo` form.
+ * @property number Optional thread number.
+ * @property title Optional thread title.
+ * @property reason Reason of the failure.
+ */
+export interface FailedItem {
+  repository: string
+  number?: number
+  title?: string
+  reason: string
+}
+
+/**
+ * Result of locking a single thread.
+ * @property status Whether the thread was locked, skipped, failed or left
+ * for the next run.
+ * @property reason Reason the thread was not locked.
+ */
+export interface LockResult {
+  status: 'locked' | 'skipped' | 'failed' | 'deferred'
+  reason?: string
+}
+
+/**
+ * Processing result object for one type of thread.
+ * @property locked Threads that were locked.
+ * @property labeled Locked threads whose labels were updated.
+ * @property deferred Inactive threads left for the next run.
+ * @property skipped Threads that were not locked, with the reason.
+ * @property failed Threads that failed to lock, with the reason.
+ */
+export interface ProcessResult {
+  locked: LockedThread[]
+  labeled: ThreadSummary[]
+  deferred: ThreadSummary[]
+  skipped: ThreadReport[]
+  failed: ThreadReport[]
+}
+
+/**
+ * Processing result object for a repository.
+ * @property issues Result for the issues.
+ * @property pullRequests Result for the pull requests.
+ */
+export interface RepositoryResult {
+  issues: ProcessResult
+  pullRequests: ProcessResult
+}
+
+/**
+ * Checkpoint of a search that was cut short, to resume from in the next run.
+ * @property closedAfter Start of the close date window that was being
+ * fetched, for a search split by close date.
+ * @property updatedAfter Last update of the first thread of the last fetched
+ * page, for a search that was not split.
+ */
+export interface SearchCheckpoint {
+  closedAfter?: string
+  updatedAfter?: string
+}
+
+/**
+ * Checkpoints of the searches of a repository, per type of thread.
+ * @property Issue Checkpoint of the issue search.
+ * @property PullRequest Checkpoint of the pull request search.
+ */
+export interface RepositoryCheckpoint {
+  Issue?: SearchCheckpoint
+  PullRequest?: SearchCheckpoint
+}
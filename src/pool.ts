@@ -0,0 +1,35 @@
+import { LockPool } from './interfaces'
+
+/**
+ * Creates a worker pool that runs at most `concurrency` lock tasks at once.
+ * Waiting tasks are started in the order they were added to the pool.
+ * @param concurrency Maximum number of tasks to run at once.
+ * @returns Worker pool to run the lock tasks through.
+ */
+export function createLockPool(concurrency: number): LockPool {
+  const limit = Math.max(1, concurrency)
+  const waiting: (() => void)[] = []
+  let active = 0
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      if (active < limit) {
+        active++
+      } else {
+        // The worker is handed over by the task that finishes first
+        await new Promise<void>((resolve) => waiting.push(resolve))
+      }
+
+      try {
+        return await task()
+      } finally {
+        const next = waiting.shift()
+        if (next) {
+          next()
+        } else {
+          active--
+        }
+      }
+    },
+  }
+}
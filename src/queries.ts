@@ -1,6 +1,18 @@
+/**
+ * Number of the latest timeline items fetched per thread, to find the last
+ * human activity in.
+ */
+export const TIMELINE_ITEMS_LIMIT = 25
+
 export const searchThreadsQuery = `
 query ($queryString: String!, $cursor: String) {
+    rateLimit {
+      remaining
+      resetAt
+      cost
+    }
     search(query: $queryString, type: ISSUE, first: 100, after: $cursor) {
+      issueCount
       pageInfo {
         hasNextPage
         endCursor
@@ -8,21 +20,207 @@ query ($queryString: String!, $cursor: String) {
       nodes {
         ... on Issue {
           __typename
+          id
           number
           title
+          url
+          author {
+            login
+          }
           updatedAt
           closedAt
+          stateReason
           locked
+          labels(first: 100) {
+            nodes {
+              name
+            }
+          }
+          comments(last: 1) {
+            nodes {
+              createdAt
+            }
+          }
+          timelineItems(
+            last: ${TIMELINE_ITEMS_LIMIT}
+            itemTypes: [
+              ISSUE_COMMENT
+              CLOSED_EVENT
+              REOPENED_EVENT
+              LABELED_EVENT
+              UNLABELED_EVENT
+              CROSS_REFERENCED_EVENT
+            ]
+          ) {
+            nodes {
+              ... on IssueComment {
+                createdAt
+                author {
+                  __typename
+                  login
+                }
+              }
+              ... on ClosedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on ReopenedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on LabeledEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on UnlabeledEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on CrossReferencedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+            }
+          }
         }
         ... on PullRequest {
           __typename
+          id
           number
           title
+          url
+          author {
+            login
+          }
           updatedAt
           closedAt
+          merged
           locked
+          labels(first: 100) {
+            nodes {
+              name
+            }
+          }
+          comments(last: 1) {
+            nodes {
+              createdAt
+            }
+          }
+          timelineItems(
+            last: ${TIMELINE_ITEMS_LIMIT}
+            itemTypes: [
+              ISSUE_COMMENT
+              CLOSED_EVENT
+              REOPENED_EVENT
+              LABELED_EVENT
+              UNLABELED_EVENT
+              CROSS_REFERENCED_EVENT
+              PULL_REQUEST_REVIEW
+              MERGED_EVENT
+            ]
+          ) {
+            nodes {
+              ... on IssueComment {
+                createdAt
+                author {
+                  __typename
+                  login
+                }
+              }
+              ... on ClosedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on ReopenedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on LabeledEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on UnlabeledEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on CrossReferencedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+              ... on PullRequestReview {
+                createdAt
+                author {
+                  __typename
+                  login
+                }
+              }
+              ... on MergedEvent {
+                createdAt
+                actor {
+                  __typename
+                  login
+                }
+              }
+            }
+          }
         }
       }
     }
   }
 `
+
+/**
+ * Builds a mutation that locks multiple issues or pull requests at once,
+ * with one aliased `lockLockable` mutation per item. The node IDs are passed
+ * as the variables `$id0` to `$id<count - 1>`.
+ * @param count Number of items to lock.
+ * @returns GraphQL mutation.
+ */
+export function lockLockablesMutation(count: number): string {
+  const ids = Array.from({ length: count }, (_, index) => `$id${index}: ID!`)
+  const mutations = Array.from(
+    { length: count },
+    (_, index) => `
+    lock${index}: lockLockable(
+      input: { lockableId: $id${index}, lockReason: $lockReason }
+    ) {
+      lockedRecord {
+        locked
+      }
+    }`,
+  )
+  return `
+mutation ($lockReason: LockReason, ${ids.join(', ')}) {${mutations.join('')}
+  }
+`
+}
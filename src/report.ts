@@ -0,0 +1,26 @@
+import * as core from '@actions/core'
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+
+import { ReportItem } from './interfaces'
+
+/**
+ * Writes the report file with the decision on every evaluated thread.
+ * @param path Path of the report file.
+ * @param items Decisions on the evaluated threads.
+ * @param dryRun Whether the run only reported what would be locked.
+ */
+export function writeReport(
+  path: string,
+  items: ReportItem[],
+  dryRun = false,
+): void {
+  const report = {
+    generated_at: new Date().toISOString(),
+    dry_run: dryRun,
+    items,
+  }
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, `${JSON.stringify(report, null, 2)}\n`)
+  core.info(`Wrote report of ${items.length} issues and PRs to ${path}.`)
+}
@@ -0,0 +1,102 @@
+import * as core from '@actions/core'
+
+/**
+ * Delay before the first retry, doubled for every following attempt.
+ */
+const BASE_RETRY_DELAY = 1000
+
+/**
+ * Upper limit for a single retry delay.
+ */
+const MAX_RETRY_DELAY = 60 * 1000
+
+/**
+ * Shape of the errors thrown by Octokit requests.
+ * @property status HTTP status code of the response.
+ * @property message Error message.
+ * @property response Response with the headers sent by GitHub.
+ */
+interface RequestErrorLike {
+  status?: number
+  message?: string
+  response?: {
+    headers?: Record<string, string | number | undefined>
+  }
+}
+
+/**
+ * Checks whether a failed request may succeed when it is retried.
+ * Secondary rate limits (403 or 429 with `retry-after` or a secondary rate
+ * limit message) and 5xx responses are retryable. An exhausted primary rate
+ * limit is not, as it is left to the wait for the rate limit reset.
+ * Everything else, like 404 and 410, is permanent.
+ * @param error Error thrown by the request.
+ * @returns True if the request should be retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { status, message = '', response } = error as RequestErrorLike
+  if (status === undefined) {
+    return false
+  }
+  if (status >= 500) {
+    return true
+  }
+  if (status !== 403 && status !== 429) {
+    return false
+  }
+  if (
+    response?.headers?.['retry-after'] !== undefined ||
+    /secondary rate limit/i.test(message)
+  ) {
+    return true
+  }
+  return status === 429 && response?.headers?.['x-ratelimit-remaining'] !== '0'
+}
+
+/**
+ * Determines how long to wait before retrying a request. The `retry-after`
+ * header is honored, otherwise the delay grows exponentially with every
+ * attempt.
+ * @param error Error thrown by the request.
+ * @param attempt Number of the retry, starting at 1.
+ * @returns Delay in milliseconds.
+ */
+export function getRetryDelay(error: unknown, attempt: number): number {
+  const headers = (error as RequestErrorLike).response?.headers ?? {}
+
+  const retryAfter = Number(headers['retry-after'])
+  if (headers['retry-after'] !== undefined && !isNaN(retryAfter)) {
+    return retryAfter * 1000
+  }
+  return Math.min(BASE_RETRY_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY)
+}
+
+/**
+ * Runs a request and retries it with backoff while it fails with a
+ * retryable error. Permanent errors are thrown right away.
+ * @param request Function that performs the request.
+ * @param description Description of the request for the log.
+ * @param maxRetries Maximum number of retries after the first attempt.
+ * @returns Promise that resolves to the result of the request.
+ * @throws Error of the last attempt if the request keeps failing.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  description: string,
+  maxRetries: number,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request()
+    } catch (error) {
+      if (attempt > maxRetries || !isRetryableError(error)) {
+        throw error
+      }
+      const delay = getRetryDelay(error, attempt)
+      core.info(
+        `Retrying ${description} in ${Math.ceil(delay / 1000)} seconds (attempt ${attempt} of ${maxRetries}).`,
+      )
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
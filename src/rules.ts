@@ -0,0 +1,249 @@
+import * as core from '@actions/core'
+import { getOctokit } from '@actions/github'
+import { parse } from 'yaml'
+
+import {
+  ClosedState,
+  LockReason,
+  LockRule,
+  RuleMatch,
+  Thread,
+} from './interfaces'
+import { LOCK_REASONS, parseListInput } from './config'
+
+/**
+ * Path of the config file in a repository, when no `config-path` is given.
+ */
+export const DEFAULT_CONFIG_PATH = '.github/inactivity-lock.yml'
+
+const RULE_TYPES: Record<string, Thread['__typename']> = {
+  issue: 'Issue',
+  pr: 'PullRequest',
+}
+
+const CLOSED_STATES: ClosedState[] = [
+  'completed',
+  'not-planned',
+  'duplicate',
+  'merged',
+  'unmerged',
+]
+
+const MATCH_KEYS = [
+  'type',
+  'labels',
+  'exclude-labels',
+  'author',
+  'closed-state',
+]
+
+const RULE_KEYS = [
+  'name',
+  'match',
+  'days-inactive',
+  'lock-reason',
+  'comment',
+  'add-labels',
+  'remove-labels',
+]
+
+/**
+ * Loads the lock rules from the config file of a repository.
+ * @param octokit Octokit instance.
+ * @param owner Owner of the repository.
+ * @param repo Name of the repository.
+ * @param path Path of the config file, empty for the default.
+ * @returns Promise that resolves to the lock rules, or undefined if the
+ * repository has no config file.
+ * @throws Error if the config file cannot be read or is invalid.
+ */
+export async function loadLockRules(
+  octokit: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  path = '',
+): Promise<LockRule[] | undefined> {
+  const configPath = path || DEFAULT_CONFIG_PATH
+  let content: string
+  try {
+    const { data } = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path: configPath,
+    })
+    if (Array.isArray(data) || !('content' in data)) {
+      throw new Error(`${configPath} is not a file.`)
+    }
+    content = Buffer.from(data.content, 'base64').toString('utf8')
+  } catch (error) {
+    // Without `contents: read`, the API answers 403 for the default path of a
+    // private repository, which is no reason to fail when it is not configured
+    const { status } = error as { status?: number }
+    if (status === 404 || (!path && status === 403)) {
+      core.info(
+        `No config file found at ${configPath} in ${owner}/${repo}, using the inputs.`,
+      )
+      return undefined
+    }
+    throw error
+  }
+
+  const rules = parseLockRules(content, configPath)
+  core.info(
+    `Loaded ${rules.length} lock rules from ${configPath} in ${owner}/${repo}.`,
+  )
+  return rules
+}
+
+/**
+ * Parses and validates the lock rules of a config file.
+ * @param content YAML content of the config file.
+ * @param path Path of the config file, used in error messages.
+ * @returns Lock rules, in the order of the file.
+ * @throws Error with a readable message if the config file is invalid.
+ */
+export function parseLockRules(content: string, path: string): LockRule[] {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config file ${path}: ${message}`)
+  }
+
+  let config: unknown
+  try {
+    config = parse(content)
+  } catch (error) {
+    fail((error as Error).message)
+  }
+  const rules = (config as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return fail('expected a non-empty list of rules.')
+  }
+
+  return rules.map((rule, index) => {
+    const key = `rules[${index}]`
+    const values = toObject(rule, key, RULE_KEYS, fail)
+    const match = toObject(values.match ?? {}, `${key}.match`, MATCH_KEYS, fail)
+    const settings: LockRule['settings'] = {}
+
+    if (values['days-inactive'] !== undefined) {
+      const days = values['days-inactive']
+      if (!Number.isInteger(days) || (days as number) < 0) {
+        fail(
+          `${key}.days-inactive '${days}', expected a whole number of at least 0.`,
+        )
+      }
+      settings.daysInactive = days as number
+    }
+    if (values['lock-reason'] !== undefined) {
+      const reason = values['lock-reason'] as LockReason | 'none'
+      if (!LOCK_REASONS.includes(reason)) {
+        fail(
+          `${key}.lock-reason '${reason}', expected one of: ${LOCK_REASONS.join(', ')}.`,
+        )
+      }
+      // Set even for `none`, so the rule overrides the reason of the inputs
+      settings.lockReason = reason === 'none' ? undefined : reason
+    }
+    if (values.comment !== undefined) {
+      if (typeof values.comment !== 'string') {
+        fail(`${key}.comment, expected a string.`)
+      }
+      settings.comment = values.comment as string
+    }
+    if (values['add-labels'] !== undefined) {
+      settings.addLabels = toList(
+        values['add-labels'],
+        `${key}.add-labels`,
+        fail,
+      )
+    }
+    if (values['remove-labels'] !== undefined) {
+      settings.removeLabels = toList(
+        values['remove-labels'],
+        `${key}.remove-labels`,
+        fail,
+      )
+    }
+
+    const ruleMatch: RuleMatch = {
+      labels: toList(match.labels, `${key}.match.labels`, fail),
+      excludeLabels: toList(
+        match['exclude-labels'],
+        `${key}.match.exclude-labels`,
+        fail,
+      ),
+      authors: toList(match.author, `${key}.match.author`, fail),
+    }
+    if (match.type !== undefined) {
+      ruleMatch.type =
+        RULE_TYPES[`${match.type}`] ??
+        fail(`${key}.match.type '${match.type}', expected one of: issue, pr.`)
+    }
+    if (match['closed-state'] !== undefined) {
+      const state = match['closed-state'] as ClosedState
+      if (!CLOSED_STATES.includes(state)) {
+        fail(
+          `${key}.match.closed-state '${state}', expected one of: ${CLOSED_STATES.join(', ')}.`,
+        )
+      }
+      ruleMatch.closedState = state
+    }
+
+    return {
+      name: typeof values.name === 'string' ? values.name : key,
+      match: ruleMatch,
+      settings,
+    }
+  })
+}
+
+/**
+ * Checks that a value of the config file is an object with known keys.
+ * @param value Value to check.
+ * @param key Key of the value, used in error messages.
+ * @param allowed Allowed keys of the object.
+ * @param fail Function that throws an error for the config file.
+ * @returns Value as an object.
+ */
+function toObject(
+  value: unknown,
+  key: string,
+  allowed: string[],
+  fail: (message: string) => never,
+): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(`${key}, expected an object.`)
+  }
+  for (const name of Object.keys(value)) {
+    if (!allowed.includes(name)) {
+      fail(
+        `${key}.${name} is not a known key, expected one of: ${allowed.join(', ')}.`,
+      )
+    }
+  }
+  return value as Record<string, unknown>
+}
+
+/**
+ * Reads a value of the config file that is a list, or a comma separated
+ * string like the list inputs.
+ * @param value Value to read.
+ * @param key Key of the value, used in error messages.
+ * @param fail Function that throws an error for the config file.
+ * @returns List of values, empty if the value is not set.
+ */
+function toList(
+  value: unknown,
+  key: string,
+  fail: (message: string) => never,
+): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (typeof value === 'string') {
+    return parseListInput(value)
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    return fail(`${key}, expected a list of strings.`)
+  }
+  return value.map((item: string) => item.trim()).filter(Boolean)
+}
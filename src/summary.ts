@@ -0,0 +1,190 @@
+import * as core from '@actions/core'
+
+import {
+  FailedItem,
+  RateLimitTracker,
+  RepositoryResult,
+  ThreadReport,
+} from './interfaces'
+
+type SummaryTableRow = Parameters<typeof core.summary.addTable>[0][number]
+
+/**
+ * Maximum number of rows in a table of the job summary, which is limited to
+ * 1 MiB by GitHub.
+ */
+const SUMMARY_ROW_LIMIT = 100
+
+/**
+ * Escapes text for use in the HTML of a job summary table.
+ * @param text Text to escape.
+ * @returns Escaped text.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Creates the header row of a job summary table.
+ * @param cells Names of the columns.
+ * @returns Header row.
+ */
+function headerRow(...cells: string[]): SummaryTableRow {
+  return cells.map((data) => ({ data, header: true }))
+}
+
+/**
+ * Adds a table to the job summary, with at most SUMMARY_ROW_LIMIT rows.
+ * @param header Header row of the table.
+ * @param rows Rows of the table.
+ */
+function addLimitedTable(header: SummaryTableRow, rows: SummaryTableRow[]) {
+  core.summary.addTable([header, ...rows.slice(0, SUMMARY_ROW_LIMIT)])
+  if (rows.length > SUMMARY_ROW_LIMIT) {
+    core.summary.addRaw(
+      `And ${rows.length - SUMMARY_ROW_LIMIT} more, see the outputs for the full list.`,
+      true,
+    )
+  }
+}
+
+/**
+ * Creates the row of a skipped or failed thread.
+ * @param repository Repository of the thread, as `owner/repo`.
+ * @param thread Skipped or failed thread, without a number for a search.
+ * @returns Row with the item, title and reason.
+ */
+function reportRow(
+  repository: string,
+  thread: Partial<ThreadReport>,
+): SummaryTableRow {
+  return [
+    thread.number ? `${repository}#${thread.number}` : repository,
+    escapeHtml(thread.title ?? ''),
+    escapeHtml(thread.reason ?? ''),
+  ]
+}
+
+/**
+ * Writes the job summary of a run: the totals per type, the locked, skipped
+ * and failed threads, and the rate limit before and after the run. A rate
+ * limit that is unknown, or was not refreshed during the run, is left blank.
+ * @param results Results per repository, as `owner/repo`.
+ * @param failures Failures collected during the run.
+ * @param rateLimitBefore Rate limit status before processing.
+ * @param rateLimitAfter Rate limit status after processing.
+ * @param dryRun Whether the run only reported what would be locked.
+ * @returns Promise that resolves when the summary is written.
+ */
+export async function writeJobSummary(
+  results: Record<string, RepositoryResult>,
+  failures: FailedItem[],
+  rateLimitBefore: RateLimitTracker,
+  rateLimitAfter: RateLimitTracker,
+  dryRun = false,
+): Promise<void> {
+  const entries = Object.entries(results)
+  const types = [
+    { name: 'Issues', key: 'issues' },
+    { name: 'Pull requests', key: 'pullRequests' },
+  ] as const
+
+  core.summary.addHeading('🔒 Inactivity Lock', 2)
+  if (dryRun) {
+    core.summary.addRaw(
+      'Dry-run mode, nothing was locked. Locked items are the items that would have been locked.',
+      true,
+    )
+  }
+
+  const lists = ['locked', 'skipped', 'failed', 'deferred'] as const
+  core.summary.addHeading('Totals', 3)
+  core.summary.addTable([
+    headerRow('Type', 'Locked', 'Skipped', 'Failed', 'Deferred'),
+    ...types.map(({ name, key }) => [
+      name,
+      ...lists.map((list) => {
+        const total = entries.reduce(
+          (sum, [, result]) => sum + result[key][list].length,
+          0,
+        )
+        return `${total}`
+      }),
+    ]),
+  ])
+
+  const locked = entries.flatMap(([repository, result]) =>
+    types.flatMap(({ name, key }) =>
+      result[key].locked.map((thread) => ({ repository, name, thread })),
+    ),
+  )
+  core.summary.addHeading('Locked', 3)
+  if (locked.length > 0) {
+    addLimitedTable(
+      headerRow('Item', 'Title', 'Type', 'Days inactive', 'Lock reason'),
+      locked.map(({ repository, name, thread }) => {
+        const item = `${repository}#${thread.number}`
+        return [
+          thread.html_url
+            ? `<a href="${escapeHtml(thread.html_url)}">${item}</a>`
+            : item,
+          escapeHtml(thread.title),
+          name,
+          `${thread.days_inactive}`,
+          thread.lock_reason ?? 'none',
+        ]
+      }),
+    )
+  } else {
+    core.summary.addRaw('No issues or pull requests were locked.', true)
+  }
+
+  const skipped = entries.flatMap(([repository, result]) =>
+    types.flatMap(({ key }) =>
+      result[key].skipped.map((thread) => ({ repository, thread })),
+    ),
+  )
+  if (skipped.length > 0) {
+    core.summary.addHeading('Skipped', 3)
+    addLimitedTable(
+      headerRow('Item', 'Title', 'Reason'),
+      skipped.map(({ repository, thread }) => reportRow(repository, thread)),
+    )
+  }
+
+  if (failures.length > 0) {
+    core.summary.addHeading('Failed', 3)
+    addLimitedTable(
+      headerRow('Item', 'Title', 'Reason'),
+      failures.map(({ repository, ...thread }) =>
+        reportRow(repository, thread),
+      ),
+    )
+  }
+
+  core.summary.addHeading('Rate limit', 3)
+  core.summary.addTable([
+    headerRow('API', 'Remaining before', 'Remaining after'),
+    ...(['core', 'graphql'] as const).map((apiType) => {
+      const before = rateLimitBefore[apiType]
+      const after = rateLimitAfter[apiType]
+      return [
+        apiType,
+        `${before?.remaining ?? ''}`,
+        // A status that was not replaced after the run started is outdated
+        after && after !== before ? `${after.remaining}` : '',
+      ]
+    }),
+  ])
+
+  try {
+    await core.summary.write()
+  } catch (error) {
+    // Outside of GitHub Actions there is no summary file to write to
+    core.warning(`Failed to write job summary: ${(error as Error).message}`)
+  }
+}